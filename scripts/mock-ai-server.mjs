@@ -0,0 +1,231 @@
+// Offline stand-in for a self-hosted model server speaking the local provider protocol
+// (src/services/providers/localProvider.ts). No models: results are cheap deterministic
+// image operations, enough to exercise the editor's AI flows end to end.
+//
+//   node scripts/mock-ai-server.mjs            # listens on http://localhost:8787
+//   PORT=9000 node scripts/mock-ai-server.mjs
+//
+// Only PNG inputs are understood, which is what the editor sends.
+import { createServer } from 'node:http';
+import { deflateSync, inflateSync } from 'node:zlib';
+
+const PORT = Number(process.env.PORT) || 8787;
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let c = 0xffffffff;
+  for (const byte of buffer) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// RGBA image { width, height, data } -> PNG data URL
+const encodePng = ({ width, height, data }) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  const raw = Buffer.alloc((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    data.copy(raw, y * (width * 4 + 1) + 1, y * width * 4, (y + 1) * width * 4);
+  }
+
+  const png = Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+  return `data:image/png;base64,${png.toString('base64')}`;
+};
+
+const paeth = (a, b, c) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// PNG data URL (8-bit gray, gray+alpha, RGB or RGBA, not interlaced) -> RGBA image
+const decodePng = (dataUrl) => {
+  const match = /^data:image\/png;base64,(.+)$/.exec(dataUrl ?? '');
+  if (!match) throw new Error('Expected a PNG data URL');
+  const png = Buffer.from(match[1], 'base64');
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('Not a PNG');
+
+  let width = 0, height = 0, colorType = 0;
+  const idat = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8 || data[12] !== 0) throw new Error('Only 8-bit non-interlaced PNGs are supported');
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    }
+    offset += length + 12;
+  }
+
+  const channels = { 0: 1, 2: 3, 4: 2, 6: 4 }[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    for (let x = 0; x < stride; x++) {
+      const value = raw[y * (stride + 1) + 1 + x];
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+      const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      pixels[y * stride + x] = (value + predicted) & 0xff;
+    }
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = pixels.subarray(i * channels, (i + 1) * channels);
+    const [r, g, b] = channels >= 3 ? p : [p[0], p[0], p[0]];
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = channels === 4 ? p[3] : channels === 2 ? p[1] : 255;
+  }
+  return { width, height, data };
+};
+
+// Diagonal gradient whose colors depend on the prompt and seed
+const generate = ({ prompt = '', width = 512, height = 512, seed }) => {
+  let hash = seed ?? 0;
+  for (const char of prompt) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  const from = [hash & 0xff, (hash >> 8) & 0xff, (hash >> 16) & 0xff];
+  const to = from.map(c => 255 - c);
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) data[i + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      data[i + 3] = 255;
+    }
+  }
+  return { image: encodePng({ width, height, data }) };
+};
+
+// Masked pixels become the mean color of the unmasked ones, blended by strength
+const inpaint = ({ image, mask, strength = 1 }) => {
+  const source = decodePng(image);
+  const region = decodePng(mask);
+  if (region.width !== source.width || region.height !== source.height) {
+    throw new Error('Image and mask sizes differ');
+  }
+
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < source.width * source.height; i++) {
+    if (region.data[i * 4] >= 128) continue;
+    for (let c = 0; c < 3; c++) sum[c] += source.data[i * 4 + c];
+    count++;
+  }
+  const mean = sum.map(s => (count ? s / count : 127));
+
+  for (let i = 0; i < source.width * source.height; i++) {
+    const weight = (region.data[i * 4] / 255) * strength;
+    for (let c = 0; c < 3; c++) {
+      source.data[i * 4 + c] = Math.round(source.data[i * 4 + c] * (1 - weight) + mean[c] * weight);
+    }
+  }
+  return { image: encodePng(source) };
+};
+
+// Nearest-neighbour upscale
+const enhance = ({ image, scale = 2 }) => {
+  const source = decodePng(image);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const s = (Math.floor(y / scale) * source.width + Math.floor(x / scale)) * 4;
+      source.data.copy(data, (y * width + x) * 4, s, s + 4);
+    }
+  }
+  return { image: encodePng({ width, height, data }) };
+};
+
+// Ellipse filling the box, or the middle of the image without one
+const segment = ({ image, box }) => {
+  const { width, height } = decodePng(image);
+  const area = box ?? { x: width / 4, y: height / 4, width: width / 2, height: height / 2 };
+  const cx = area.x + area.width / 2;
+  const cy = area.y + area.height / 2;
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (x + 0.5 - cx) / (area.width / 2);
+      const dy = (y + 0.5 - cy) / (area.height / 2);
+      const i = (y * width + x) * 4;
+      const value = dx * dx + dy * dy <= 1 ? 255 : 0;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { mask: encodePng({ width, height, data }) };
+};
+
+const OPERATIONS = { generate, inpaint, enhance, segment };
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const operation = OPERATIONS[/^\/v1\/(\w+)$/.exec(req.url ?? '')?.[1]];
+  if (req.method !== 'POST' || !operation) return send(res, 404, { error: `No route for ${req.method} ${req.url}` });
+
+  try {
+    const parts = [];
+    for await (const part of req) parts.push(part);
+    const request = JSON.parse(Buffer.concat(parts).toString('utf8'));
+    const started = Date.now();
+    const response = operation(request);
+    console.log(`${req.url} model=${request.model} ${Date.now() - started}ms`);
+    send(res, 200, response);
+  } catch (error) {
+    console.error(`${req.url} failed:`, error.message);
+    send(res, 400, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock AI server listening on http://localhost:${PORT}`));
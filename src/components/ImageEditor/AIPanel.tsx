@@ -10,6 +10,10 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { useEditorStore } from '@/lib/editorStore';
+import { DEFAULT_ENHANCE_SETTINGS, EnhanceSettings, GenerationSettings } from '@/services/aiService';
+import { PROVIDERS, fitToModel, getModel, modelsFor } from '@/services/providers/registry';
+import type { ChoiceParameter, ModelDefinition, NumberParameter } from '@/services/providers/types';
 import { 
   X, 
   Sparkles, 
@@ -21,28 +25,42 @@ import {
   Download
 } from 'lucide-react';
 
+// Where an upscaled result goes: replace the document at the new size, or a layer scaled to the canvas
+export type EnhanceOutput = 'document' | 'layer';
+
 interface AIPanelProps {
   onClose: () => void;
-  onGenerate: (prompt: string, settings: any) => void;
+  onGenerate: (prompt: string, settings: GenerationSettings) => void;
+  // Fills the current canvas mask with what the prompt describes
+  onInpaint: (prompt: string, negativePrompt: string, settings: GenerationSettings) => void;
+  onEnhance: (settings: EnhanceSettings, output: EnhanceOutput) => void;
   isProcessing: boolean;
 }
 
-interface GenerationSettings {
-  model: string;
-  steps: number;
-  guidance: number;
-  seed: number;
-  width: number;
-  height: number;
-  strength: number;
-  useUpscale: boolean;
-}
+// Control ranges come from the selected model's parameter schema, falling back to these
+const FALLBACK_STEPS: NumberParameter = { type: 'number', min: 10, max: 100, step: 5, default: 30 };
+const FALLBACK_GUIDANCE: NumberParameter = { type: 'number', min: 1, max: 20, step: 0.5, default: 7.5 };
+const FALLBACK_STRENGTH: NumberParameter = { type: 'number', min: 0.1, max: 1, step: 0.05, default: 0.8 };
+const FALLBACK_DIMENSION: ChoiceParameter = { type: 'choice', options: [512, 768, 1024, 1536], default: 1024 };
+
+const numberParameter = (model: ModelDefinition | undefined, key: string, fallback: NumberParameter) => {
+  const spec = model?.parameters[key];
+  return spec?.type === 'number' ? spec : fallback;
+};
+
+const choiceParameter = (model: ModelDefinition | undefined, key: string, fallback: ChoiceParameter) => {
+  const spec = model?.parameters[key];
+  return spec?.type === 'choice' ? spec : fallback;
+};
 
 export const AIPanel: React.FC<AIPanelProps> = ({
   onClose,
   onGenerate,
+  onInpaint,
+  onEnhance,
   isProcessing
 }) => {
+  const currentMask = useEditorStore(state => state.currentMask);
   const [activeTab, setActiveTab] = useState('generate');
   const [prompt, setPrompt] = useState('');
   const [negativePrompt, setNegativePrompt] = useState('');
@@ -57,12 +75,16 @@ export const AIPanel: React.FC<AIPanelProps> = ({
     useUpscale: false
   });
 
-  const models = [
-    { id: 'sdxl-1.0', name: 'SDXL 1.0', provider: 'Replicate' },
-    { id: 'flux-dev', name: 'Flux Dev', provider: 'Replicate' },
-    { id: 'kandinsky-3', name: 'Kandinsky 3', provider: 'DeepInfra' },
-    { id: 'sdxl-turbo', name: 'SDXL Turbo', provider: 'DeepInfra' }
-  ];
+  const [enhanceSettings, setEnhanceSettings] = useState<EnhanceSettings>(DEFAULT_ENHANCE_SETTINGS);
+  const [enhanceOutput, setEnhanceOutput] = useState<EnhanceOutput>('document');
+
+  const models = modelsFor('generate');
+  const model = getModel(settings.model);
+  const stepsParameter = numberParameter(model, 'steps', FALLBACK_STEPS);
+  const guidanceParameter = numberParameter(model, 'guidance', FALLBACK_GUIDANCE);
+  const strengthParameter = numberParameter(model, 'strength', FALLBACK_STRENGTH);
+  const widthParameter = choiceParameter(model, 'width', FALLBACK_DIMENSION);
+  const heightParameter = choiceParameter(model, 'height', FALLBACK_DIMENSION);
 
   const presetPrompts = [
     "a masterpiece, highly detailed, photorealistic",
@@ -76,6 +98,18 @@ export const AIPanel: React.FC<AIPanelProps> = ({
     onGenerate(prompt, settings);
   };
 
+  const handleInpaint = () => {
+    if (!prompt.trim() || !currentMask) return;
+    onInpaint(prompt, negativePrompt, settings);
+  };
+
+  const updateEnhanceSetting = <K extends keyof EnhanceSettings>(
+    key: K,
+    value: EnhanceSettings[K]
+  ) => {
+    setEnhanceSettings(prev => ({ ...prev, [key]: value }));
+  };
+
   const updateSetting = <K extends keyof GenerationSettings>(
     key: K, 
     value: GenerationSettings[K]
@@ -83,6 +117,12 @@ export const AIPanel: React.FC<AIPanelProps> = ({
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  // Values the new model does not accept are pulled into its ranges
+  const selectModel = (id: string) => {
+    const next = getModel(id);
+    setSettings(prev => (next ? fitToModel({ ...prev, model: id }, next) : { ...prev, model: id }));
+  };
+
   return (
     <div className="h-full flex flex-col bg-panel-bg">
       {/* Header */}
@@ -167,18 +207,18 @@ export const AIPanel: React.FC<AIPanelProps> = ({
               <Label>Model</Label>
               <Select 
                 value={settings.model} 
-                onValueChange={(value) => updateSetting('model', value)}
+                onValueChange={selectModel}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {models.map((model) => (
-                    <SelectItem key={model.id} value={model.id}>
+                  {models.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
                       <div className="flex items-center justify-between w-full">
-                        <span>{model.name}</span>
+                        <span>{option.name}</span>
                         <Badge variant="outline" className="ml-2 text-xs">
-                          {model.provider}
+                          {PROVIDERS[option.provider].name}
                         </Badge>
                       </div>
                     </SelectItem>
@@ -203,9 +243,9 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                 <Slider
                   value={[settings.steps]}
                   onValueChange={([value]) => updateSetting('steps', value)}
-                  min={10}
-                  max={100}
-                  step={5}
+                  min={stepsParameter.min}
+                  max={stepsParameter.max}
+                  step={stepsParameter.step}
                   className="w-full"
                 />
               </div>
@@ -219,9 +259,9 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                 <Slider
                   value={[settings.guidance]}
                   onValueChange={([value]) => updateSetting('guidance', value)}
-                  min={1}
-                  max={20}
-                  step={0.5}
+                  min={guidanceParameter.min}
+                  max={guidanceParameter.max}
+                  step={guidanceParameter.step}
                   className="w-full"
                 />
               </div>
@@ -238,10 +278,9 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="512">512</SelectItem>
-                      <SelectItem value="768">768</SelectItem>
-                      <SelectItem value="1024">1024</SelectItem>
-                      <SelectItem value="1536">1536</SelectItem>
+                      {widthParameter.options.map((size) => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -255,10 +294,9 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="512">512</SelectItem>
-                      <SelectItem value="768">768</SelectItem>
-                      <SelectItem value="1024">1024</SelectItem>
-                      <SelectItem value="1536">1536</SelectItem>
+                      {heightParameter.options.map((size) => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -286,22 +324,140 @@ export const AIPanel: React.FC<AIPanelProps> = ({
             </div>
           </TabsContent>
 
-          <TabsContent value="inpaint" className="space-y-4">
-            <div className="text-center py-8">
-              <Paintbrush className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-              <h3 className="font-semibold mb-2">Inpainting</h3>
+          <TabsContent value="inpaint" className="space-y-6">
+            {/* Mask Status */}
+            <div className="p-3 rounded-lg bg-card border border-border flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Paintbrush className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm font-medium">Selection</span>
+              </div>
+              {currentMask ? (
+                <Badge variant="secondary">{currentMask.area.toLocaleString()} px</Badge>
+              ) : (
+                <Badge variant="outline">None</Badge>
+              )}
+            </div>
+            {!currentMask && (
               <p className="text-sm text-muted-foreground">
-                Select an area to inpaint using the selection tools, then describe what you want to replace it with.
+                Select an area with the SAM2 tools or paint it with Refine Mask, then describe what should replace it.
+              </p>
+            )}
+
+            <div className="space-y-3">
+              <Label htmlFor="inpaint-prompt">Prompt</Label>
+              <Textarea
+                id="inpaint-prompt"
+                placeholder="Describe what should fill the selection..."
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                className="min-h-[100px] resize-none"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="inpaint-negative">Negative Prompt</Label>
+              <Textarea
+                id="inpaint-negative"
+                placeholder="What to avoid in the filled area..."
+                value={negativePrompt}
+                onChange={(e) => setNegativePrompt(e.target.value)}
+                className="min-h-[80px] resize-none"
+              />
+            </div>
+
+            {/* Strength */}
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-sm">Strength</Label>
+                <span className="text-sm text-muted-foreground">{settings.strength.toFixed(2)}</span>
+              </div>
+              <Slider
+                value={[settings.strength]}
+                onValueChange={([value]) => updateSetting('strength', value)}
+                min={strengthParameter.min}
+                max={strengthParameter.max}
+                step={strengthParameter.step}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Lower values keep more of the original pixels under the selection
               </p>
             </div>
           </TabsContent>
 
-          <TabsContent value="enhance" className="space-y-4">
-            <div className="text-center py-8">
-              <Zap className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-              <h3 className="font-semibold mb-2">AI Enhancement</h3>
-              <p className="text-sm text-muted-foreground">
-                Automatically enhance your images with AI upscaling, denoising, and quality improvements.
+          <TabsContent value="enhance" className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Upscale the image with Real-ESRGAN, optionally restoring faces and cleaning up noise first.
+            </p>
+
+            {/* Scale */}
+            <div className="space-y-3">
+              <Label>Upscale</Label>
+              <Select
+                value={enhanceSettings.scale.toString()}
+                onValueChange={(value) => updateEnhanceSetting('scale', value === '4' ? 4 : 2)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2x</SelectItem>
+                  <SelectItem value="4">4x</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Face Enhance */}
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm">Face Enhance</Label>
+                <p className="text-xs text-muted-foreground">Restore faces after upscaling</p>
+              </div>
+              <Switch
+                checked={enhanceSettings.faceEnhance}
+                onCheckedChange={(checked) => updateEnhanceSetting('faceEnhance', checked)}
+              />
+            </div>
+
+            {/* Denoise */}
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-sm">Denoise</Label>
+                <span className="text-sm text-muted-foreground">
+                  {enhanceSettings.denoise === 0 ? 'Off' : `${Math.round(enhanceSettings.denoise * 100)}%`}
+                </span>
+              </div>
+              <Slider
+                value={[enhanceSettings.denoise]}
+                onValueChange={([value]) => updateEnhanceSetting('denoise', value)}
+                min={0}
+                max={1}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+
+            <Separator />
+
+            {/* Output */}
+            <div className="space-y-3">
+              <Label>Result</Label>
+              <Select
+                value={enhanceOutput}
+                onValueChange={(value) => setEnhanceOutput(value as EnhanceOutput)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="document">New document at {enhanceSettings.scale}x size</SelectItem>
+                  <SelectItem value="layer">Layer at canvas size</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {enhanceOutput === 'document'
+                  ? 'Replaces the current document and its layers'
+                  : 'Keeps the document size; the result is resampled onto the canvas'}
               </p>
             </div>
           </TabsContent>
@@ -310,23 +466,61 @@ export const AIPanel: React.FC<AIPanelProps> = ({
 
       {/* Footer */}
       <div className="p-4 border-t border-panel-border space-y-3">
-        <Button
-          onClick={handleGenerate}
-          disabled={!prompt.trim() || isProcessing}
-          className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
-        >
-          {isProcessing ? (
-            <>
-              <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin mr-2" />
-              Generating...
-            </>
-          ) : (
-            <>
-              <Sparkles className="w-4 h-4 mr-2" />
-              Generate with AI
-            </>
-          )}
-        </Button>
+        {activeTab === 'enhance' ? (
+          <Button
+            onClick={() => onEnhance(enhanceSettings, enhanceOutput)}
+            disabled={isProcessing}
+            className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin mr-2" />
+                Enhancing...
+              </>
+            ) : (
+              <>
+                <Zap className="w-4 h-4 mr-2" />
+                Enhance Image
+              </>
+            )}
+          </Button>
+        ) : activeTab === 'inpaint' ? (
+          <Button
+            onClick={handleInpaint}
+            disabled={!prompt.trim() || !currentMask || isProcessing}
+            className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin mr-2" />
+                Inpainting...
+              </>
+            ) : (
+              <>
+                <Paintbrush className="w-4 h-4 mr-2" />
+                Inpaint Selection
+              </>
+            )}
+          </Button>
+        ) : (
+          <Button
+            onClick={handleGenerate}
+            disabled={!prompt.trim() || isProcessing}
+            className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin mr-2" />
+                Generating...
+              </>
+            ) : (
+              <>
+                <Sparkles className="w-4 h-4 mr-2" />
+                Generate with AI
+              </>
+            )}
+          </Button>
+        )}
 
         <div className="flex gap-2">
           <Button variant="secondary" className="flex-1">
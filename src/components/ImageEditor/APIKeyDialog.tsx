@@ -7,11 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Key, ExternalLink, Shield } from 'lucide-react';
+import type { APIKeys } from '@/services/aiService';
 
 interface APIKeyDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (keys: { replicate?: string; deepinfra?: string }) => void;
+  onSave: (keys: APIKeys) => void;
 }
 
 export const APIKeyDialog: React.FC<APIKeyDialogProps> = ({
@@ -21,7 +22,8 @@ export const APIKeyDialog: React.FC<APIKeyDialogProps> = ({
 }) => {
   const [keys, setKeys] = useState({
     replicate: '',
-    deepinfra: ''
+    deepinfra: '',
+    localUrl: ''
   });
 
   const handleSave = () => {
@@ -56,9 +58,10 @@ export const APIKeyDialog: React.FC<APIKeyDialogProps> = ({
           </Alert>
 
           <Tabs defaultValue="replicate" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="replicate">Replicate</TabsTrigger>
               <TabsTrigger value="deepinfra">DeepInfra</TabsTrigger>
+              <TabsTrigger value="local">Self-hosted</TabsTrigger>
             </TabsList>
 
             <TabsContent value="replicate" className="space-y-4">
@@ -110,6 +113,22 @@ export const APIKeyDialog: React.FC<APIKeyDialogProps> = ({
                 </p>
               </div>
             </TabsContent>
+
+            <TabsContent value="local" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="local-url">Server URL</Label>
+                <Input
+                  id="local-url"
+                  type="url"
+                  placeholder="http://localhost:8787"
+                  value={keys.localUrl}
+                  onChange={(e) => setKeys(prev => ({ ...prev, localUrl: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  A server implementing the local provider protocol. Run <code>npm run mock:ai</code> for an offline test server.
+                </p>
+              </div>
+            </TabsContent>
           </Tabs>
 
           <div className="flex gap-3">
@@ -1,10 +1,19 @@
-import { forwardRef, useEffect, useRef, useState, useImperativeHandle } from 'react';
+import { forwardRef, useEffect, useMemo, useRef, useState, useImperativeHandle } from 'react';
 import { motion } from 'framer-motion';
 import { Stage, Layer, Image as KonvaImage, Rect, Circle } from 'react-konva';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { ZoomIn, ZoomOut, RotateCcw, Move, Plus, Minus } from 'lucide-react';
 import Konva from 'konva';
 import { useEditorStore } from '@/lib/editorStore';
+import { sha256Hex } from '@/lib/hash';
+import { MASK_OVERLAY_COLOR, Mask, createMask, maskFromImageData, toAlphaMatte, toOverlayImageData } from '@/lib/mask';
+import { strokeBrush } from '@/lib/maskBrush';
+import { buildTrimap, trimapToImageData } from '@/lib/alphaMatting';
+import { cutoutLayer } from '@/lib/maskLayers';
+import { backgroundLayer } from '@/lib/backgroundReplace';
+import { segmentWithProvider } from '@/lib/providerSegment';
+import { CancelledError } from '@/services/segmentation/protocol';
 import { toast } from 'sonner';
 
 interface CanvasProps {
@@ -18,6 +27,25 @@ export interface CanvasRef {
   exportImage: () => string | null;
 }
 
+const draftToRect = (draft: { startX: number; startY: number; x: number; y: number }) => ({
+  x: Math.min(draft.startX, draft.x),
+  y: Math.min(draft.startY, draft.y),
+  width: Math.abs(draft.x - draft.startX),
+  height: Math.abs(draft.y - draft.startY)
+});
+
+// Tools that paint into the mask with the refine brush
+const BRUSH_TOOLS = ['refine-mask', 'smart-erase', 'erase'];
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
 export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
   currentImage,
   selectedTool,
@@ -30,14 +58,57 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [samPoints, setSamPoints] = useState<{x: number, y: number, type: 'positive' | 'negative'}[]>([]);
+  // Pixels and content hash of the current image, reused across segmentation runs
+  const imageDataRef = useRef<ImageData | null>(null);
+  const imageKeyRef = useRef<Promise<string> | null>(null);
+  // Aborts the segmentation currently running in the worker
+  const abortRef = useRef<AbortController | null>(null);
+  // Box prompt being dragged with the sam2-box tool, in image coordinates
+  const [boxDraft, setBoxDraft] = useState<{ startX: number; startY: number; x: number; y: number } | null>(null);
+  // Working copy of the mask while the refine brush is active; strokes edit it in place
+  const refineRef = useRef<{ data: Uint8Array; overlay: ImageData; canvas: HTMLCanvasElement } | null>(null);
+  const [refineCanvas, setRefineCanvas] = useState<HTMLCanvasElement | null>(null);
+  const refineImageRef = useRef<Konva.Image>(null);
+  // Last mask the brush wrote to the store, so the working copy is not rebuilt from its own output
+  const pushedMaskRef = useRef<Mask | null>(null);
+  const lastBrushPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [brushCursor, setBrushCursor] = useState<{ x: number; y: number } | null>(null);
   const {
     setProcessing,
-    setMask,
-    addLayer,
     layers,
     activeLayerId,
+    addLayer,
+    addLayerBelow,
     updateLayer,
-    removeLayer
+    maskCandidates,
+    activeCandidateIndex,
+    maskPreviewVisible,
+    setMaskCandidates,
+    multiObject,
+    labeledMasks,
+    setLabeledMasks,
+    segmentationMode,
+    floodFillTolerance,
+    setSAMStatus,
+    selection,
+    setSelection,
+    processingMessage,
+    processingProgress,
+    processingAbort,
+    setProcessingProgress,
+    currentMask,
+    setMask,
+    brushSize,
+    brushHardness,
+    maskRefine,
+    autoRefine,
+    includeEdges,
+    edgeRefine,
+    trimapBand,
+    trimapPreview,
+    backgroundFill,
+    magicCutServer,
+    apiKeys
   } = useEditorStore();
 
   useImperativeHandle(ref, () => ({
@@ -65,23 +136,32 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
 
     // Initialize SAM2 when component mounts
     const initializeSAM2 = async () => {
+      setSAMStatus('loading');
       try {
         const { segmentationService } = await import('@/services/aiService');
         await segmentationService.initializeSAM2();
-        console.log('SAM2 initialized successfully');
+        setSAMStatus('ready');
       } catch (error) {
+        setSAMStatus('error');
         console.warn('Failed to initialize SAM2:', error);
+        toast.warning('SAM model could not be loaded. Use the flood fill fallback in the segmentation settings.');
       }
     };
     initializeSAM2();
 
     return () => window.removeEventListener('resize', handleResize);
-  }, []);
+  }, [setSAMStatus]);
+
+  useEffect(() => {
+    imageDataRef.current = null;
+    imageKeyRef.current = currentImage ? sha256Hex(currentImage) : null;
+  }, [currentImage]);
 
   useEffect(() => {
     if (currentImage) {
       const img = new window.Image();
       img.onload = () => {
+        imageDataRef.current = null;
         setImage(img);
         // Auto-fit image to canvas
         const scaleX = stageSize.width / img.width;
@@ -133,6 +213,130 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
     loadLayerImages();
   }, [layers]);
 
+  // Overlay for the candidate mask being previewed
+  const previewMask = activeCandidateIndex !== null ? maskCandidates[activeCandidateIndex]?.mask : null;
+  const previewCanvas = useMemo(() => {
+    if (!previewMask) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = previewMask.width;
+    canvas.height = previewMask.height;
+    canvas.getContext('2d')!.putImageData(toOverlayImageData(previewMask), 0, 0);
+    return canvas;
+  }, [previewMask]);
+
+  // Automatic mode overlay: every labeled object in its own color
+  const labeledCanvas = useMemo(() => {
+    if (labeledMasks.length === 0) return null;
+    const { width, height } = labeledMasks[0].mask;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const overlay = ctx.createImageData(width, height);
+
+    labeledMasks.forEach(({ mask }, i) => {
+      // Golden-angle hues keep neighbouring labels apart
+      const hue = (i * 137.5) % 360;
+      const [r, g, b] = hslToRgb(hue, 0.75, 0.55);
+      const coverage = toAlphaMatte(mask);
+      for (let p = 0; p < coverage.length; p++) {
+        if (coverage[p] > 127) {
+          overlay.data[p * 4] = r;
+          overlay.data[p * 4 + 1] = g;
+          overlay.data[p * 4 + 2] = b;
+          overlay.data[p * 4 + 3] = 255;
+        }
+      }
+    });
+
+    ctx.putImageData(overlay, 0, 0);
+    return canvas;
+  }, [labeledMasks]);
+
+  // Trimap preview of the mask that alpha matting would use
+  const activeLayerImageData = layers.find(l => l.id === activeLayerId)?.imageData;
+  const trimapCanvas = useMemo(() => {
+    if (!trimapPreview) return null;
+    const source = currentMask ?? (activeLayerImageData ? maskFromImageData(activeLayerImageData) : null);
+    if (!source) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    canvas.getContext('2d')!.putImageData(trimapToImageData(buildTrimap(source, trimapBand)), 0, 0);
+    return canvas;
+  }, [trimapPreview, currentMask, activeLayerImageData, trimapBand]);
+
+  const brushActive = BRUSH_TOOLS.includes(selectedTool);
+
+  // Seed the refine brush from the current mask, or from the active layer's alpha
+  useEffect(() => {
+    if (!brushActive || !image) {
+      refineRef.current = null;
+      setRefineCanvas(null);
+      return;
+    }
+    if (refineRef.current && currentMask === pushedMaskRef.current) return;
+
+    const { width, height } = image;
+    const activeLayer = layers.find(l => l.id === activeLayerId);
+    // The layer only seeds a fresh refine session; a cleared mask stays empty and erasing starts from nothing
+    const layerSeed = selectedTool === 'refine-mask' && !refineRef.current ? activeLayer?.imageData : undefined;
+    const source = currentMask ?? (layerSeed ? maskFromImageData(layerSeed) : null);
+    const data = source && source.width === width && source.height === height
+      ? new Uint8Array(toAlphaMatte(source))
+      : new Uint8Array(width * height);
+
+    const overlay = toOverlayImageData(createMask(width, height, data));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(overlay, 0, 0);
+
+    refineRef.current = { data, overlay, canvas };
+    pushedMaskRef.current = currentMask;
+    setRefineCanvas(canvas);
+  }, [brushActive, selectedTool, image, currentMask, layers, activeLayerId]);
+
+  const paintRefine = (pos: { x: number; y: number }, subtract: boolean) => {
+    const refine = refineRef.current;
+    if (!refine || !image) return;
+
+    const { data, overlay, canvas } = refine;
+    const from = lastBrushPointRef.current ?? pos;
+    lastBrushPointRef.current = pos;
+    const dirty = strokeBrush(data, image.width, image.height, from, pos, {
+      size: brushSize,
+      hardness: brushHardness,
+      subtract
+    });
+    if (!dirty) return;
+
+    // Refresh only the overlay pixels the stroke touched
+    const [r, g, b] = MASK_OVERLAY_COLOR;
+    for (let y = dirty.y; y < dirty.y + dirty.height; y++) {
+      for (let x = dirty.x; x < dirty.x + dirty.width; x++) {
+        const i = y * image.width + x;
+        overlay.data[i * 4] = r;
+        overlay.data[i * 4 + 1] = g;
+        overlay.data[i * 4 + 2] = b;
+        overlay.data[i * 4 + 3] = Math.round((data[i] * 180) / 255);
+      }
+    }
+    canvas.getContext('2d')!.putImageData(overlay, 0, 0, dirty.x, dirty.y, dirty.width, dirty.height);
+    refineImageRef.current?.getLayer()?.batchDraw();
+  };
+
+  const finishRefineStroke = () => {
+    const refine = refineRef.current;
+    if (!lastBrushPointRef.current || !refine || !image) return;
+    lastBrushPointRef.current = null;
+
+    const mask = createMask(image.width, image.height, new Uint8Array(refine.data));
+    pushedMaskRef.current = mask;
+    setMask(mask);
+  };
+
   const handleZoomIn = () => setScale(prev => Math.min(prev * 1.2, 5));
   const handleZoomOut = () => setScale(prev => Math.max(prev / 1.2, 0.1));
   const handleReset = () => {
@@ -140,9 +344,35 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
     setPosition({ x: 0, y: 0 });
   };
 
-  const handleStageClick = async (e: Konva.KonvaEventObject<MouseEvent>) => {
+  const getImageData = (img: HTMLImageElement): ImageData => {
+    if (!imageDataRef.current) {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0);
+      imageDataRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }
+    return imageDataRef.current;
+  };
+
+  // Warm the embedding cache while the user is still placing prompts
+  const precomputeEmbedding = (img: HTMLImageElement) => {
+    if (segmentationMode !== 'sam' || !imageKeyRef.current) return;
+
+    const imageData = getImageData(img);
+    imageKeyRef.current
+      .then(async (imageKey) => {
+        const { segmentationService } = await import('@/services/aiService');
+        await segmentationService.encodeImage(imageData, imageKey);
+      })
+      .catch((error) => console.warn('Failed to precompute SAM embedding:', error));
+  };
+
+  // Pointer position in image pixel coordinates, clamped to the image bounds
+  const getImagePointer = (e: Konva.KonvaEventObject<MouseEvent>) => {
     const pos = e.target.getStage()?.getPointerPosition();
-    if (!pos || !image || !stageRef.current) return;
+    if (!pos || !image) return null;
 
     // Adjust click position for scale and offset
     const adjustedPos = {
@@ -153,6 +383,56 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
     // Ensure position is within bounds
     adjustedPos.x = Math.max(0, Math.min(adjustedPos.x, image.width - 1));
     adjustedPos.y = Math.max(0, Math.min(adjustedPos.y, image.height - 1));
+    return adjustedPos;
+  };
+
+  const handleStageMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pos = getImagePointer(e);
+    if (!pos) return;
+
+    if (brushActive) {
+      // Alt+drag subtracts from the mask
+      paintRefine(pos, e.evt.altKey);
+    } else if (selectedTool === 'sam2-box') {
+      setBoxDraft({ startX: pos.x, startY: pos.y, x: pos.x, y: pos.y });
+    }
+  };
+
+  const handleStageMouseMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (brushActive) {
+      const pos = getImagePointer(e);
+      setBrushCursor(pos);
+      if (pos && lastBrushPointRef.current) {
+        paintRefine(pos, e.evt.altKey);
+      }
+      return;
+    }
+
+    if (!boxDraft) return;
+    const pos = getImagePointer(e);
+    if (!pos) return;
+    setBoxDraft({ ...boxDraft, x: pos.x, y: pos.y });
+  };
+
+  const handleStageMouseUp = () => {
+    finishRefineStroke();
+    if (!boxDraft || !image) return;
+    const box = draftToRect(boxDraft);
+    setBoxDraft(null);
+
+    // Ignore accidental clicks without a drag
+    if (box.width < 4 || box.height < 4) return;
+
+    setSelection(box);
+    toast.info('Box prompt set. Add points to refine, then run segmentation.');
+    if (samPoints.length === 0) {
+      precomputeEmbedding(image);
+    }
+  };
+
+  const handleStageClick = async (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const adjustedPos = getImagePointer(e);
+    if (!adjustedPos || !image || !stageRef.current) return;
 
     if (selectedTool === 'sam2-segment') {
       // Add point for SAM2 segmentation
@@ -167,26 +447,112 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
 
       toast.info(`Added ${pointType} point. ${isShiftPressed ? 'Shift+' : ''}Click to add points, then run segmentation.`);
 
+      if (samPoints.length === 0 && !selection) {
+        precomputeEmbedding(image);
+      }
+
+    } else if (selectedTool === 'magic-cut') {
+      const abortController = new AbortController();
+      abortRef.current = abortController;
+      setProcessing(true, 'Removing background...');
+
+      try {
+        const { createAIService, segmentationService } = await import('@/services/aiService');
+        const mask = magicCutServer && apiKeys.localUrl
+          ? await segmentWithProvider(createAIService(apiKeys), image, {}, abortController.signal)
+          : await segmentationService.removeBackground(
+              getImageData(image),
+              {
+                mode: segmentationMode,
+                refine: autoRefine ? { fillHoles: maskRefine.fillHoles, minComponentArea: maskRefine.minComponentArea } : {},
+                includeEdges,
+                edges: edgeRefine
+              },
+              {
+                signal: abortController.signal,
+                onProgress: (progress, message) => setProcessingProgress(progress, message)
+              }
+            );
+
+        addLayer({ ...cutoutLayer(image, mask, 'Foreground'), kind: 'segment' });
+        const fill = await backgroundLayer(image, mask, backgroundFill);
+        const foregroundId = useEditorStore.getState().activeLayerId;
+        if (fill && foregroundId) {
+          addLayerBelow(fill, foregroundId);
+        }
+        // Hidden rather than removed so the original stays one click away
+        if (layers.some(l => l.id === 'background')) {
+          updateLayer('background', { visible: false });
+        }
+        setMask(mask);
+
+        toast.success('Background removed');
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          toast.info('Background removal cancelled');
+          return;
+        }
+        console.error('Background removal failed:', error);
+        toast.error('Background removal failed. Please try again.');
+      } finally {
+        abortRef.current = null;
+        setProcessing(false);
+      }
+
+    } else if (selectedTool === 'sam2-run' && multiObject) {
+      const abortController = new AbortController();
+      abortRef.current = abortController;
+      setProcessing(true, 'Segmenting everything...');
+      toast.info('Finding all objects in the image...');
+
+      try {
+        const imageData = getImageData(image);
+        const imageKey = await imageKeyRef.current;
+        const { segmentationService } = await import('@/services/aiService');
+
+        const objects = await segmentationService.segmentEverything(
+          imageData,
+          { mode: segmentationMode, imageKey },
+          {
+            signal: abortController.signal,
+            onProgress: (progress, message) => setProcessingProgress(progress, message)
+          }
+        );
+
+        setLabeledMasks(objects);
+        if (objects.length === 0) {
+          toast.warning('No objects found. Try the other segmentation engine.');
+        } else {
+          toast.success(`Found ${objects.length} object${objects.length === 1 ? '' : 's'}. Create layers in the segmentation panel.`);
+        }
+
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          toast.info('Segmentation cancelled');
+          return;
+        }
+        console.error('Automatic segmentation failed:', error);
+        toast.error('Segmentation failed. Please try again.');
+      } finally {
+        abortRef.current = null;
+        setProcessing(false);
+      }
+
     } else if (selectedTool === 'sam2-run') {
-      if (samPoints.length === 0) {
-        toast.error('Please add some points first by using the SAM2 Segment tool.');
+      if (samPoints.length === 0 && !selection) {
+        toast.error('Please add some points or a box first by using the SAM2 Points or SAM2 Box tool.');
         return;
       }
 
-      console.log('Running SAM2 segmentation with points:', samPoints);
-
       // Set processing state
+      const abortController = new AbortController();
+      abortRef.current = abortController;
       setProcessing(true, 'Segmenting with SAM2...');
-      toast.info('Running SAM2 segmentation...');
+      toast.info(segmentationMode === 'sam' ? 'Running SAM2 segmentation...' : 'Running flood fill segmentation...');
 
       try {
-        // Get image data from canvas
-        const canvas = document.createElement('canvas');
-        canvas.width = image.width;
-        canvas.height = image.height;
-        const ctx = canvas.getContext('2d')!;
-        ctx.drawImage(image, 0, 0);
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const imageData = getImageData(image);
+        const imageKey = await imageKeyRef.current;
 
         // Import segmentation service
         const { segmentationService } = await import('@/services/aiService');
@@ -195,91 +561,44 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
         const positivePoints = samPoints.filter(p => p.type === 'positive');
         const negativePoints = samPoints.filter(p => p.type === 'negative');
 
-        const maskData = await segmentationService.segmentWithSAM2(
+        const candidates = await segmentationService.segmentCandidates(
           imageData,
           positivePoints[0], // Use first positive point as primary
           {
-            threshold: 0.15,
-            dilate: 3,
-            includeEdges: true,
+            mode: segmentationMode,
+            imageKey,
+            threshold: floodFillTolerance,
+            refine: autoRefine ? maskRefine : { grow: maskRefine.grow },
+            includeEdges,
+            edges: edgeRefine,
             positivePoints,
-            negativePoints
+            negativePoints,
+            box: selection ?? undefined
+          },
+          {
+            signal: abortController.signal,
+            onProgress: (progress, message) => setProcessingProgress(progress, message)
           }
         );
 
-        // Store mask for future use
-        setMask(maskData);
-
-        // Create segmented layer (selected area)
-        const segmentCanvas = document.createElement('canvas');
-        segmentCanvas.width = image.width;
-        segmentCanvas.height = image.height;
-        const segmentCtx = segmentCanvas.getContext('2d')!;
-
-        // Draw original image
-        segmentCtx.drawImage(image, 0, 0);
-
-        // Apply mask to create transparency
-        const segmentImageData = segmentCtx.getImageData(0, 0, image.width, image.height);
-        for (let i = 0; i < maskData.data.length; i += 4) {
-          if (maskData.data[i] === 0) { // Black pixels in mask = transparent
-            segmentImageData.data[i * 4 + 3] = 0; // Set alpha to 0
-          }
-        }
-        segmentCtx.putImageData(segmentImageData, 0, 0);
-
-        // Create background layer (everything except selected)
-        const backgroundCanvas = document.createElement('canvas');
-        backgroundCanvas.width = image.width;
-        backgroundCanvas.height = image.height;
-        const backgroundCtx = backgroundCanvas.getContext('2d')!;
-
-        // Draw original image
-        backgroundCtx.drawImage(image, 0, 0);
-
-        // Apply inverted mask
-        const backgroundImageData = backgroundCtx.getImageData(0, 0, image.width, image.height);
-        for (let i = 0; i < maskData.data.length; i += 4) {
-          if (maskData.data[i] > 0) { // White pixels in mask = transparent in background
-            backgroundImageData.data[i * 4 + 3] = 0; // Set alpha to 0
-          }
-        }
-        backgroundCtx.putImageData(backgroundImageData, 0, 0);
-
-        // Convert to ImageData for storage
-        const segmentData = segmentCtx.getImageData(0, 0, image.width, image.height);
-        const backgroundData = backgroundCtx.getImageData(0, 0, image.width, image.height);
-
-        // Remove background layer and add new separated layers
-        const bgLayer = layers.find(l => l.id === 'background');
-        if (bgLayer) {
-          removeLayer('background');
-        }
-
-        // Add background layer (everything except selection)
-        addLayer({
-          name: 'Background (Unselected)',
-          thumbnail: backgroundCanvas.toDataURL(),
-          imageData: backgroundData
-        });
-
-        // Add segmented layer (selection)
-        addLayer({
-          name: 'Selected Object',
-          thumbnail: segmentCanvas.toDataURL(),
-          imageData: segmentData
-        });
+        // Preview the best candidate; the segmentation panel commits one to layers
+        setMaskCandidates(candidates);
 
-        // Clear points after successful segmentation
+        // Clear prompts after successful segmentation
         setSamPoints([]);
+        setSelection(null);
 
-        toast.success('Object segmented and separated into layers!');
-        console.log('SAM2 segmentation completed');
+        toast.success(`Found ${candidates.length} mask candidate${candidates.length === 1 ? '' : 's'}. Pick one in the segmentation panel.`);
 
       } catch (error) {
+        if (error instanceof CancelledError) {
+          toast.info('Segmentation cancelled');
+          return;
+        }
         console.error('SAM2 segmentation failed:', error);
         toast.error('Segmentation failed. Please try again.');
       } finally {
+        abortRef.current = null;
         setProcessing(false);
       }
     }
@@ -287,9 +606,12 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
 
   const clearSamPoints = () => {
     setSamPoints([]);
-    toast.info('Cleared all SAM2 points');
+    setSelection(null);
+    toast.info('Cleared all SAM2 prompts');
   };
 
+  const promptCount = samPoints.length + (selection ? 1 : 0);
+
   return (
     <div className="canvas-container h-full relative bg-canvas-bg overflow-hidden">
       {/* Canvas Controls */}
@@ -322,14 +644,14 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
         >
           <RotateCcw className="w-4 h-4" />
         </Button>
-        {samPoints.length > 0 && (
+        {promptCount > 0 && (
           <Button
             variant="destructive"
             size="sm"
             onClick={clearSamPoints}
             className="bg-panel-bg/80 backdrop-blur-sm border-panel-border hover:shadow-glow-accent"
           >
-            Clear Points ({samPoints.length})
+            Clear Prompts ({promptCount})
           </Button>
         )}
       </motion.div>
@@ -357,6 +679,13 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
           y={position.y}
           draggable={selectedTool === 'select'}
           onClick={handleStageClick}
+          onMouseDown={handleStageMouseDown}
+          onMouseMove={handleStageMouseMove}
+          onMouseUp={handleStageMouseUp}
+          onMouseLeave={() => {
+            finishRefineStroke();
+            setBrushCursor(null);
+          }}
           onDragEnd={(e) => {
             setPosition({
               x: e.target.x(),
@@ -408,6 +737,76 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
               return null;
             })}
 
+            {/* Mask Candidate Preview */}
+            {previewCanvas && maskPreviewVisible && !refineCanvas && (
+              <KonvaImage
+                image={previewCanvas}
+                width={previewCanvas.width}
+                height={previewCanvas.height}
+                opacity={0.6}
+                listening={false}
+              />
+            )}
+
+            {/* Automatic Segmentation Preview */}
+            {labeledCanvas && maskPreviewVisible && !refineCanvas && (
+              <KonvaImage
+                image={labeledCanvas}
+                width={labeledCanvas.width}
+                height={labeledCanvas.height}
+                opacity={0.5}
+                listening={false}
+              />
+            )}
+
+            {/* Trimap Preview */}
+            {trimapCanvas && (
+              <KonvaImage
+                image={trimapCanvas}
+                width={trimapCanvas.width}
+                height={trimapCanvas.height}
+                opacity={0.7}
+                listening={false}
+              />
+            )}
+
+            {/* Refine Mask Overlay */}
+            {refineCanvas && (
+              <KonvaImage
+                ref={refineImageRef}
+                image={refineCanvas}
+                width={refineCanvas.width}
+                height={refineCanvas.height}
+                opacity={0.6}
+                listening={false}
+              />
+            )}
+
+            {/* Refine Brush Cursor */}
+            {refineCanvas && brushCursor && (
+              <Circle
+                x={brushCursor.x}
+                y={brushCursor.y}
+                radius={brushSize / 2}
+                stroke="#ffffff"
+                strokeWidth={1 / scale}
+                dash={[4 / scale, 4 / scale]}
+                listening={false}
+              />
+            )}
+
+            {/* SAM2 Box Prompt Overlay */}
+            {(boxDraft || selection) && (
+              <Rect
+                {...(boxDraft ? draftToRect(boxDraft) : selection)}
+                stroke="#10B981"
+                strokeWidth={2 / scale}
+                dash={[8 / scale, 4 / scale]}
+                fill="rgba(16, 185, 129, 0.08)"
+                listening={false}
+              />
+            )}
+
             {/* SAM2 Points Overlay */}
             {samPoints.map((point, index) => (
               <Circle
@@ -453,10 +852,26 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(({
           animate={{ opacity: 1 }}
           className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-20"
         >
-          <div className="text-center">
+          <div className="text-center w-64">
             <div className="w-16 h-16 border-4 border-primary/20 border-t-primary rounded-full animate-spin mx-auto mb-4" />
             <p className="text-lg font-semibold text-primary">Processing with AI...</p>
-            <p className="text-sm text-muted-foreground">This may take a few moments</p>
+            <p className="text-sm text-muted-foreground">{processingMessage || 'This may take a few moments'}</p>
+            {processingProgress !== null && (
+              <div className="mt-4 space-y-1">
+                <Progress value={processingProgress * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">{Math.round(processingProgress * 100)}%</p>
+              </div>
+            )}
+            {(abortRef.current || processingAbort) && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => (abortRef.current ?? processingAbort)?.abort()}
+                className="mt-4"
+              >
+                Cancel
+              </Button>
+            )}
           </div>
         </motion.div>
       )}
@@ -1,20 +1,25 @@
 import { useRef } from 'react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Upload, Save, Download, Sparkles } from 'lucide-react';
+import { Upload, Save, Download, Sparkles, FileInput, BarChart3 } from 'lucide-react';
 
 interface HeaderBarProps {
   onImageUpload: (file: File) => void;
+  // PNG mattes/masks and COCO or LabelMe JSON, added as layers
+  onMaskImport: (files: File[]) => void;
   onSave: () => void;
   onExport: () => void;
 }
 
 export const HeaderBar: React.FC<HeaderBarProps> = ({
   onImageUpload,
+  onMaskImport,
   onSave,
   onExport
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -23,6 +28,15 @@ export const HeaderBar: React.FC<HeaderBarProps> = ({
     }
   };
 
+  const handleMaskUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onMaskImport(files);
+    }
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
   return (
     <motion.header
       initial={{ y: -60 }}
@@ -61,6 +75,35 @@ export const HeaderBar: React.FC<HeaderBarProps> = ({
           Upload
         </Button>
 
+        <input
+          ref={maskInputRef}
+          type="file"
+          accept="image/png,application/json,.json"
+          multiple
+          onChange={handleMaskUpload}
+          className="hidden"
+        />
+
+        <Button
+          variant="secondary"
+          onClick={() => maskInputRef.current?.click()}
+          className="transition-smooth hover:shadow-glow-accent"
+        >
+          <FileInput className="w-4 h-4 mr-2" />
+          Import Masks
+        </Button>
+
+        <Button
+          variant="secondary"
+          asChild
+          className="transition-smooth hover:shadow-glow-accent"
+        >
+          <Link to="/usage">
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Usage
+          </Link>
+        </Button>
+
         <Button
           variant="secondary"
           onClick={onSave}
@@ -2,16 +2,44 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Canvas, CanvasRef } from './Canvas';
 import { ToolPanel } from './ToolPanel';
-import { AIPanel } from './AIPanel';
+import { AIPanel, EnhanceOutput } from './AIPanel';
 import { HeaderBar } from './HeaderBar';
 import { LayersPanel } from './LayersPanel';
 import { SegmentationPanel } from './SegmentationPanel';
+import { QueuePanel } from './QueuePanel';
 import { APIKeyDialog } from './APIKeyDialog';
 import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
 import { toast } from 'sonner';
-import { useEditorStore } from '@/lib/editorStore';
-import { createAIService, segmentationService } from '@/services/aiService';
+import { Layer, useEditorStore } from '@/lib/editorStore';
+import { applyMaskToLayer, cutoutLayer, imageToImageData, loadImage } from '@/lib/maskLayers';
+import { importMaskFile } from '@/lib/maskImport';
+import { inpaintRegion } from '@/lib/inpaint';
+import { featherMask } from '@/lib/edgeRefine';
+import { inpaintWithProvider } from '@/lib/providerInpaint';
+import { denoiseImage } from '@/lib/denoise';
+import {
+  CancelledError,
+  createAIService,
+  EnhanceSettings,
+  GenerationSettings,
+  pendingPredictions,
+  segmentationService
+} from '@/services/aiService';
+import { canUse, defaultModelFor, getModel, hasProviderKey } from '@/services/providers/registry';
+import type { Capability } from '@/services/providers/types';
+import { isActiveJob, jobQueue } from '@/services/jobQueue';
+import { loadRateLimitPolicy } from '@/services/rateLimiter';
+import { confirmWithinBudget } from './budgetWarning';
+
+// Provider capability each AI tool needs a usable model for
+const TOOL_CAPABILITIES: Partial<Record<string, Capability>> = {
+  inpaint: 'inpaint',
+  enhance: 'enhance',
+};
+
+// Predictions left over from before this page load; ones started since belong to the job queue
+const previousSessionPredictions = new Set(pendingPredictions.list().map(p => p.id));
 
 interface ImageEditorProps {}
 
@@ -23,11 +51,14 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
     selectedTool,
     isProcessing,
     apiKeys,
+    currentMask,
     setCurrentImage,
     setSelectedTool,
-    setProcessing,
+    setJobs,
+    jobs,
     setAPIKeys,
     addLayer,
+    addLayers,
     removeLayer,
     updateLayer,
     setActiveLayer,
@@ -37,6 +68,7 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
   const [showAIPanel, setShowAIPanel] = useState(false);
   const [showLayersPanel, setShowLayersPanel] = useState(false);
   const [showSegmentationPanel, setShowSegmentationPanel] = useState(false);
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
   const [showAPIDialog, setShowAPIDialog] = useState(false);
   const canvasRef = useRef<CanvasRef>(null);
 
@@ -51,32 +83,69 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
     reader.readAsDataURL(file);
   }, [setCurrentImage]);
 
+  const handleMaskImport = useCallback(async (files: File[]) => {
+    if (!currentImage) {
+      toast.error('Upload the image the masks belong to first');
+      return;
+    }
+
+    const image = await loadImage(currentImage);
+    const target = { width: image.width, height: image.height };
+    const imported: Partial<Layer>[] = [];
+
+    for (const file of files) {
+      try {
+        const instances = await importMaskFile(file, target);
+        imported.push(...instances.map(({ label, mask }) => ({ ...cutoutLayer(image, mask, label), kind: 'segment' as const })));
+      } catch (error) {
+        console.error(`Failed to import ${file.name}:`, error);
+        toast.error(error instanceof Error ? error.message : `Failed to import ${file.name}`);
+      }
+    }
+
+    if (imported.length > 0) {
+      addLayers(imported);
+      setShowLayersPanel(true);
+      toast.success(`Imported ${imported.length} mask layer${imported.length === 1 ? '' : 's'}`);
+    }
+  }, [currentImage, addLayers]);
+
   const handleToolSelect = useCallback((toolId: string) => {
     setSelectedTool(toolId);
     
-    // Show segmentation panel for SAM2 tools
-    if (toolId === 'sam2-segment') {
+    // Show segmentation panel for SAM2 tools, Magic Cut and the erasers
+    if (['sam2-segment', 'sam2-box', 'sam2-run', 'magic-cut', 'erase'].includes(toolId)) {
       setShowSegmentationPanel(true);
     }
     
     // Check if API keys are needed for AI tools
-    if ((['sam2-segment', 'inpaint', 'enhance'].includes(toolId)) && 
-        (!apiKeys.replicate && !apiKeys.deepinfra)) {
+    const capability = TOOL_CAPABILITIES[toolId];
+    if (capability && !canUse(capability, apiKeys)) {
       setShowAPIDialog(true);
       toast.info('API keys required for AI features');
     }
   }, [setSelectedTool, apiKeys]);
 
-  const handleAIGenerate = useCallback(async (prompt: string, settings: any) => {
-    if (!apiKeys.replicate && !apiKeys.deepinfra) {
+  // AI calls run in the job queue so several can be in flight while editing continues
+  const handleAIGenerate = useCallback(async (prompt: string, settings: GenerationSettings) => {
+    const model = getModel(settings.model);
+    if (!model || !hasProviderKey(model.provider, apiKeys)) {
       setShowAPIDialog(true);
       return;
     }
+    if (!(await confirmWithinBudget(model))) return;
+
+    const aiService = createAIService(apiKeys);
+    const job = jobQueue.enqueue({
+      label: `Generate: ${prompt}`,
+      provider: model.provider,
+      run: ({ signal, onProgress }) =>
+        aiService.generateImage(prompt, '', settings, { signal, onProgress, label: 'AI Generated' })
+    });
+    toast.info('Generation queued');
 
-    setProcessing(true, 'Generating with AI...');
     try {
-      const aiService = createAIService(apiKeys);
-      const result = await aiService.generateImage(prompt, '', settings);
+      const result = await job.result;
       
       // Add generated image as new layer
       addLayer({
@@ -86,12 +155,161 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
       
       toast.success('AI generation completed!');
     } catch (error) {
+      if (error instanceof CancelledError) return;
       console.error('AI generation error:', error);
       toast.error('AI generation failed');
-    } finally {
-      setProcessing(false);
     }
-  }, [apiKeys, setProcessing, addLayer]);
+  }, [apiKeys, addLayer]);
+
+  const handleAIInpaint = useCallback(async (prompt: string, negativePrompt: string, settings: GenerationSettings) => {
+    const model = defaultModelFor('inpaint', apiKeys);
+    if (!model) {
+      setShowAPIDialog(true);
+      return;
+    }
+    if (!currentImage || !currentMask) {
+      toast.error('Select the area to inpaint first');
+      return;
+    }
+    if (!(await confirmWithinBudget(model))) return;
+
+    // The job works on the image and selection as they are now, whatever happens to them meanwhile
+    const source = currentImage;
+    const region = inpaintRegion(currentMask);
+    const aiService = createAIService(apiKeys);
+    const job = jobQueue.enqueue({
+      label: `Inpaint: ${prompt}`,
+      provider: model.provider,
+      run: async ({ signal, onProgress }) => inpaintWithProvider(
+        aiService,
+        await loadImage(source),
+        region,
+        prompt,
+        { ...settings, model: model.id },
+        negativePrompt,
+        { signal, onProgress, label: 'AI Inpaint' }
+      )
+    });
+    toast.info('Inpainting queued');
+
+    try {
+      const result = await job.result;
+
+      // Only the edited region is kept, with a soft edge so it blends into the untouched image
+      addLayer({ name: 'AI Inpaint', ...applyMaskToLayer(result, featherMask(region, 2)) });
+      toast.success('Inpainting completed!');
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      console.error('AI inpainting error:', error);
+      toast.error('AI inpainting failed');
+    }
+  }, [apiKeys, currentImage, currentMask, addLayer]);
+
+  const handleAIEnhance = useCallback(async (settings: EnhanceSettings, output: EnhanceOutput) => {
+    const model = defaultModelFor('enhance', apiKeys);
+    if (!model) {
+      setShowAPIDialog(true);
+      toast.info('Enhancement needs a Replicate key or a self-hosted server');
+      return;
+    }
+    if (!currentImage) {
+      toast.error('Load an image first');
+      return;
+    }
+    if (!(await confirmWithinBudget(model))) return;
+
+    const original = currentImage;
+    const aiService = createAIService(apiKeys);
+    const job = jobQueue.enqueue({
+      label: `Enhance ${settings.scale}x`,
+      provider: model.provider,
+      run: async ({ signal, onProgress }) => {
+        const image = await loadImage(original);
+        let source = original;
+        if (settings.denoise > 0) {
+          const canvas = document.createElement('canvas');
+          canvas.width = image.width;
+          canvas.height = image.height;
+          canvas.getContext('2d')!.putImageData(denoiseImage(imageToImageData(image), settings.denoise), 0, 0);
+          source = canvas.toDataURL('image/png');
+        }
+
+        const result = await aiService.enhanceImage(source, settings, model.id, {
+          signal,
+          onProgress,
+          label: `Enhanced (${settings.scale}x)`
+        });
+        return { image, result: await loadImage(result) };
+      }
+    });
+    toast.info('Enhancement queued');
+
+    try {
+      const { image, result } = await job.result;
+
+      // The document keeps the full upscaled size; a layer has to match the canvas the other layers use
+      const canvas = document.createElement('canvas');
+      const [width, height] = output === 'document' ? [result.width, result.height] : [image.width, image.height];
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(result, 0, 0, width, height);
+
+      if (output === 'document') {
+        // Remote results expire, so the new document keeps its own copy of the pixels
+        setCurrentImage(canvas.toDataURL('image/png'));
+        toast.success(`Enhanced to ${width}x${height}`);
+      } else {
+        addLayer({
+          name: `Enhanced (${settings.scale}x)`,
+          thumbnail: canvas.toDataURL(),
+          imageData: ctx.getImageData(0, 0, width, height)
+        });
+        toast.success('Enhanced layer added');
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      console.error('AI enhancement error:', error);
+      toast.error('AI enhancement failed');
+    }
+  }, [apiKeys, currentImage, setCurrentImage, addLayer]);
+
+  useEffect(() => jobQueue.subscribe(setJobs), [setJobs]);
+
+  // Organization and API key limits; until they load, hosted providers get their default limit
+  useEffect(() => {
+    loadRateLimitPolicy()
+      .then(policy => jobQueue.setRateLimitPolicy(policy))
+      .catch(error => console.warn('Failed to load rate limits:', error));
+  }, []);
+
+  // Predictions still running when the tab was closed are collected into layers in the background
+  const replicateKey = apiKeys.replicate;
+  useEffect(() => {
+    if (!replicateKey) return;
+    const pending = pendingPredictions.list().filter(p => previousSessionPredictions.has(p.id));
+    if (pending.length === 0) return;
+
+    const abort = new AbortController();
+    const aiService = createAIService({ replicate: replicateKey });
+    toast.info(`Resuming ${pending.length} AI job${pending.length === 1 ? '' : 's'} from your last session`);
+
+    pending.forEach(async (prediction) => {
+      try {
+        const result = await aiService.resumePrediction(prediction, { signal: abort.signal, detachOnAbort: true });
+        addLayer({ name: prediction.label, thumbnail: result });
+        toast.success(`${prediction.label} finished`);
+      } catch (error) {
+        if (abort.signal.aborted) return;
+        console.error(`Failed to resume prediction ${prediction.id}:`, error);
+        toast.error(`${prediction.label} could not be recovered`);
+      }
+    });
+
+    // Stop polling without cancelling on the provider; the jobs stay stored for the next mount
+    return () => abort.abort();
+  }, [replicateKey, addLayer]);
 
   const handleLayerToggle = useCallback((layerId: string, property: 'visible' | 'locked') => {
     const layer = layers.find(l => l.id === layerId);
@@ -130,6 +348,7 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
     <div className="h-screen bg-background flex flex-col overflow-hidden">
       <HeaderBar 
         onImageUpload={handleImageUpload}
+        onMaskImport={handleMaskImport}
         onSave={handleSaveProject}
         onExport={handleExportImage}
       />
@@ -146,6 +365,8 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
             onToolSelect={handleToolSelect}
             onShowAI={() => setShowAIPanel(true)}
             onShowLayers={() => setShowLayersPanel(true)}
+            onShowQueue={() => setShowQueuePanel(true)}
+            activeJobs={jobs.filter(isActiveJob).length}
           />
         </motion.div>
 
@@ -203,6 +424,34 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
             </motion.div>
           )}
 
+          {/* Job Queue Panel */}
+          {showQueuePanel && (
+            <motion.div
+              initial={{ x: 300 }}
+              animate={{ x: 0 }}
+              className="w-80 bg-panel-bg border-l border-panel-border overflow-y-auto"
+            >
+              <div className="p-4 border-b border-panel-border">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold">Jobs ({jobs.length})</h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowQueuePanel(false)}
+                    className="h-8 w-8 p-0 hover:bg-secondary"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <QueuePanel
+                jobs={jobs}
+                onCancel={(jobId) => jobQueue.cancel(jobId)}
+                onClearFinished={() => jobQueue.clearFinished()}
+              />
+            </motion.div>
+          )}
+
           {/* AI Panel */}
           {showAIPanel && (
             <motion.div
@@ -226,6 +475,8 @@ export const ImageEditor: React.FC<ImageEditorProps> = () => {
               <AIPanel 
                 onClose={() => setShowAIPanel(false)}
                 onGenerate={handleAIGenerate}
+                onInpaint={handleAIInpaint}
+                onEnhance={handleAIEnhance}
                 isProcessing={isProcessing}
               />
             </motion.div>
@@ -0,0 +1,115 @@
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PROVIDERS } from '@/services/providers/registry';
+import { isActiveJob, type JobSnapshot, type JobStatus } from '@/services/jobQueue';
+import {
+  Ban,
+  CheckCircle2,
+  Clock,
+  Hourglass,
+  Loader2,
+  RotateCw,
+  X,
+  XCircle
+} from 'lucide-react';
+
+interface QueuePanelProps {
+  jobs: JobSnapshot[];
+  onCancel: (jobId: number) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_DISPLAY: Record<JobStatus, { label: string; icon: typeof Clock; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  queued: { label: 'Queued', icon: Clock, variant: 'outline' },
+  'rate-limited': { label: 'Rate limited', icon: Hourglass, variant: 'outline' },
+  running: { label: 'Running', icon: Loader2, variant: 'default' },
+  retrying: { label: 'Retrying', icon: RotateCw, variant: 'secondary' },
+  succeeded: { label: 'Done', icon: CheckCircle2, variant: 'secondary' },
+  failed: { label: 'Failed', icon: XCircle, variant: 'destructive' },
+  cancelled: { label: 'Cancelled', icon: Ban, variant: 'outline' },
+};
+
+const formatDuration = (job: JobSnapshot) => {
+  if (!job.startedAt) return null;
+  const seconds = Math.round(((job.finishedAt ?? Date.now()) - job.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  jobs,
+  onCancel,
+  onClearFinished
+}) => {
+  const hasFinished = jobs.some(job => !isActiveJob(job));
+
+  return (
+    <div className="p-4 space-y-4">
+      {jobs.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Generations, inpaints and enhancements you start appear here while you keep editing
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {[...jobs].reverse().map((job) => {
+          const status = STATUS_DISPLAY[job.status];
+          const StatusIcon = status.icon;
+          const duration = formatDuration(job);
+
+          return (
+            <motion.div
+              key={job.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="p-3 rounded-lg border border-panel-border bg-card space-y-2"
+            >
+              <div className="flex items-center gap-2">
+                <StatusIcon className={`w-4 h-4 shrink-0 ${job.status === 'running' ? 'animate-spin' : ''}`} />
+                <span className="text-sm font-medium truncate flex-1">{job.label}</span>
+                {isActiveJob(job) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onCancel(job.id)}
+                    className="h-6 w-6 p-0 hover:bg-secondary"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                <span>{PROVIDERS[job.provider].name}</span>
+                {job.attempt > 1 && <span>attempt {job.attempt}</span>}
+                {duration && <span className="ml-auto">{duration}</span>}
+              </div>
+
+              {job.status === 'running' && job.progress !== null && (
+                <Progress value={job.progress * 100} className="h-1.5" />
+              )}
+              {(job.error || (isActiveJob(job) && job.message)) && (
+                <p className={`text-xs truncate ${job.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {job.error ?? job.message}
+                </p>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {hasFinished && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onClearFinished}
+          className="w-full"
+        >
+          Clear finished
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,22 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEditorStore } from '@/lib/editorStore';
+import { CancelledError, createAIService, segmentationService, SegmentationMode } from '@/services/aiService';
+import { defaultModelFor, hasProviderKey } from '@/services/providers/registry';
+import { jobQueue } from '@/services/jobQueue';
+import { confirmWithinBudget } from './budgetWarning';
+import { applyMaskToLayer, cutoutLayer, imageToImageData, loadImage, splitImageByMask } from '@/lib/maskLayers';
+import { maskFromImageData, toOverlayImageData } from '@/lib/mask';
+import { createCocoZip, layersToInstances } from '@/lib/cocoExport';
+import { BackgroundFill, backgroundLayer } from '@/lib/backgroundReplace';
+import { inpaintRegion } from '@/lib/inpaint';
+import { inpaintWithProvider } from '@/lib/providerInpaint';
+import { toast } from 'sonner';
 import { 
   Target, 
   Scissors, 
@@ -13,7 +26,9 @@ import {
   Settings,
   Eye,
   Layers,
-  Download
+  Download,
+  BoxSelect,
+  ImagePlus
 } from 'lucide-react';
 
 interface SegmentationPanelProps {
@@ -27,11 +42,370 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
   selectedTool,
   onToolChange
 }) => {
-  const [threshold, setThreshold] = useState([0.15]);
-  const [dilate, setDilate] = useState([3]);
-  const [includeEdges, setIncludeEdges] = useState(true);
-  const [autoRefine, setAutoRefine] = useState(true);
-  const [multiObject, setMultiObject] = useState(false);
+  // Last used value of each background fill, so switching types does not lose them
+  const [fillColor, setFillColor] = useState('#ffffff');
+  const [fillBlur, setFillBlur] = useState(12);
+  const [fillImage, setFillImage] = useState<string | null>(null);
+  const fillImageInputRef = useRef<HTMLInputElement>(null);
+  // Smart Erase uses the configured provider unless switched to the offline fill
+  const [eraseWithProvider, setEraseWithProvider] = useState(true);
+  const {
+    segmentationMode,
+    setSegmentationMode,
+    floodFillTolerance,
+    setFloodFillTolerance,
+    samStatus,
+    currentImage,
+    layers,
+    addLayer,
+    addLayers,
+    addLayerBelow,
+    removeLayer,
+    updateLayer,
+    activeLayerId,
+    currentMask,
+    setMask,
+    brushSize,
+    setBrushSize,
+    brushHardness,
+    setBrushHardness,
+    maskRefine,
+    setMaskRefine,
+    autoRefine,
+    setAutoRefine,
+    includeEdges,
+    setIncludeEdges,
+    edgeRefine,
+    setEdgeRefine,
+    trimapBand,
+    setTrimapBand,
+    trimapPreview,
+    setTrimapPreview,
+    backgroundFill,
+    setBackgroundFill,
+    magicCutServer,
+    setMagicCutServer,
+    apiKeys,
+    isProcessing,
+    setProcessing,
+    setProcessingProgress,
+    maskCandidates,
+    activeCandidateIndex,
+    maskPreviewVisible,
+    setMaskCandidates,
+    selectMaskCandidate,
+    setMaskPreviewVisible,
+    multiObject,
+    setMultiObject,
+    labeledMasks,
+    setLabeledMasks
+  } = useEditorStore();
+
+  const candidateThumbnails = useMemo(() => maskCandidates.map(({ mask }) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    canvas.getContext('2d')!.putImageData(toOverlayImageData(mask, undefined, 255), 0, 0);
+    return canvas.toDataURL();
+  }), [maskCandidates]);
+
+  const activeCandidate = activeCandidateIndex !== null ? maskCandidates[activeCandidateIndex] : null;
+
+  const handleAddToLayer = async () => {
+    if (!activeCandidate || !currentImage) {
+      toast.error('Run segmentation first to get a mask');
+      return;
+    }
+
+    try {
+      const image = await loadImage(currentImage);
+      const { selected, unselected } = splitImageByMask(image, activeCandidate.mask);
+
+      // Remove background layer and add new separated layers
+      if (layers.some(l => l.id === 'background')) {
+        removeLayer('background');
+      }
+      addLayer(unselected);
+      addLayer(selected);
+
+      setMaskCandidates([]);
+      toast.success('Object segmented and separated into layers!');
+    } catch (error) {
+      console.error('Failed to create layers from mask:', error);
+      toast.error('Failed to create layers from mask');
+    }
+  };
+
+  const handleExportMask = async () => {
+    if (!currentImage) {
+      toast.error('Load an image first');
+      return;
+    }
+
+    // Segmented layers first; an unsaved candidate is exported on its own
+    let instances = layersToInstances(layers);
+    if (instances.length === 0 && activeCandidate) {
+      instances = [{ label: 'Selected Object', mask: activeCandidate.mask, score: activeCandidate.score }];
+    }
+    if (instances.length === 0) {
+      toast.error('Segment an object and add it to a layer first');
+      return;
+    }
+
+    try {
+      const image = await loadImage(currentImage);
+      const zip = await createCocoZip(currentImage, { width: image.width, height: image.height }, instances);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.download = 'coco-annotations.zip';
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success(`Exported ${instances.length} annotation${instances.length === 1 ? '' : 's'} as COCO`);
+    } catch (error) {
+      console.error('COCO export failed:', error);
+      toast.error('Failed to export annotations');
+    }
+  };
+
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+
+  const handleLoadLayerMask = () => {
+    if (!activeLayer?.imageData) {
+      toast.error('Select a segmented layer to load its mask');
+      return;
+    }
+    setMask(maskFromImageData(activeLayer.imageData, 'alpha'));
+  };
+
+  const handleApplyRefinedMask = async () => {
+    if (!currentMask || !currentImage) {
+      toast.error('Paint a mask first');
+      return;
+    }
+
+    try {
+      if (activeLayer?.imageData) {
+        updateLayer(activeLayer.id, applyMaskToLayer(activeLayer.imageData, currentMask));
+        toast.success(`Updated mask of ${activeLayer.name}`);
+      } else {
+        // The background layer has no pixels of its own, so cut a new layer instead
+        const image = await loadImage(currentImage);
+        addLayer(cutoutLayer(image, currentMask, 'Refined Mask'));
+        toast.success('Created a layer from the refined mask');
+      }
+    } catch (error) {
+      console.error('Failed to apply refined mask:', error);
+      toast.error('Failed to apply refined mask');
+    }
+  };
+
+  const handleAlphaMatting = async () => {
+    const source = currentMask ?? (activeLayer?.imageData ? maskFromImageData(activeLayer.imageData, 'alpha') : null);
+    if (!source || !currentImage) {
+      toast.error('Create or select a mask first');
+      return;
+    }
+
+    setProcessing(true, 'Alpha matting...');
+    try {
+      const image = await loadImage(currentImage);
+      const matte = await segmentationService.matteMask(
+        imageToImageData(image),
+        source,
+        { bandWidth: trimapBand },
+        { onProgress: (progress, message) => setProcessingProgress(progress, message) }
+      );
+
+      if (activeLayer?.imageData) {
+        updateLayer(activeLayer.id, applyMaskToLayer(activeLayer.imageData, matte));
+      } else {
+        addLayer(cutoutLayer(image, matte, 'Matted Object'));
+      }
+      setMask(matte);
+      setTrimapPreview(false);
+      toast.success('Alpha matte applied');
+    } catch (error) {
+      console.error('Alpha matting failed:', error);
+      toast.error('Alpha matting failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const hasLocalServer = hasProviderKey('local', apiKeys);
+
+  // 'server' is a Magic Cut only engine; the others are shared with the SAM tools
+  const handleMagicCutEngineChange = (value: string) => {
+    setMagicCutServer(value === 'server');
+    if (value !== 'server') {
+      setSegmentationMode(value as SegmentationMode);
+    }
+  };
+
+  const handleFillTypeChange = (type: BackgroundFill['type']) => {
+    switch (type) {
+      case 'transparent':
+        setBackgroundFill({ type });
+        break;
+      case 'color':
+        setBackgroundFill({ type, color: fillColor });
+        break;
+      case 'blur':
+        setBackgroundFill({ type, radius: fillBlur });
+        break;
+      case 'image':
+        if (fillImage) {
+          setBackgroundFill({ type, src: fillImage });
+        } else {
+          fillImageInputRef.current?.click();
+        }
+        break;
+    }
+  };
+
+  const handleFillImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const src = reader.result as string;
+      setFillImage(src);
+      setBackgroundFill({ type: 'image', src });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Puts the selected fill under the active layer, using the mask of the last cut
+  const handleReplaceBackground = async () => {
+    if (!currentMask || !currentImage || !activeLayerId) {
+      toast.error('Run Magic Cut first');
+      return;
+    }
+    if (backgroundFill.type === 'transparent') {
+      toast.info('Pick a color, blur or image background first');
+      return;
+    }
+
+    try {
+      const image = await loadImage(currentImage);
+      const fill = await backgroundLayer(image, currentMask, backgroundFill);
+      if (fill) {
+        addLayerBelow(fill, activeLayerId);
+        toast.success('Background replaced');
+      }
+    } catch (error) {
+      console.error('Failed to replace background:', error);
+      toast.error('Failed to replace background');
+    }
+  };
+
+  const inpaintModel = defaultModelFor('inpaint', apiKeys);
+  const hasInpaintProvider = inpaintModel !== undefined;
+
+  // Fills the masked object from its surroundings into a new layer; the original stays untouched below
+  const handleSmartErase = async () => {
+    if (!currentMask || !currentImage) {
+      toast.error('Select the object with SAM2 or paint over it first');
+      return;
+    }
+
+    const region = inpaintRegion(currentMask);
+
+    // Provider erases go to the job queue so editing can continue; the offline fill runs in the worker
+    if (eraseWithProvider && inpaintModel) {
+      if (!(await confirmWithinBudget(inpaintModel))) return;
+      const source = currentImage;
+      const aiService = createAIService(apiKeys);
+      const job = jobQueue.enqueue({
+        label: 'Smart Erase',
+        provider: inpaintModel.provider,
+        run: async ({ signal, onProgress }) => {
+          const image = await loadImage(source);
+          return inpaintWithProvider(
+            aiService,
+            image,
+            region,
+            'empty background, seamless continuation of the surrounding scene',
+            {
+              model: inpaintModel.id,
+              steps: 30,
+              guidance: 7.5,
+              seed: -1,
+              width: image.width,
+              height: image.height,
+              strength: 1,
+              useUpscale: false
+            },
+            '',
+            { signal, onProgress, label: 'Erased Object' }
+          );
+        }
+      });
+      // Cleared now rather than on completion, so a selection made meanwhile is kept
+      setMask(null);
+      toast.info('Smart erase queued');
+
+      try {
+        addLayer({ name: 'Erased Object', ...applyMaskToLayer(await job.result, region) });
+        toast.success('Object erased into a new layer');
+      } catch (error) {
+        if (error instanceof CancelledError) return;
+        console.error('Smart erase failed:', error);
+        toast.error('Smart erase failed');
+      }
+      return;
+    }
+
+    const abort = new AbortController();
+    setProcessing(true, 'Erasing object...', abort);
+    try {
+      const image = await loadImage(currentImage);
+      const filled = await segmentationService.inpaintLocally(imageToImageData(image), currentMask, {}, {
+        signal: abort.signal,
+        onProgress: (progress, message) => setProcessingProgress(progress, message)
+      });
+
+      addLayer({ name: 'Erased Object', ...applyMaskToLayer(filled, region) });
+      setMask(null);
+      toast.success('Object erased into a new layer');
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        toast.info('Smart erase cancelled');
+        return;
+      }
+      console.error('Smart erase failed:', error);
+      toast.error('Smart erase failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCreateObjectLayers = async () => {
+    if (labeledMasks.length === 0 || !currentImage) return;
+
+    try {
+      const image = await loadImage(currentImage);
+      addLayers(labeledMasks.map(({ mask, label }) => ({ ...cutoutLayer(image, mask, label), kind: 'segment' as const })));
+      toast.success(`Created ${labeledMasks.length} object layer${labeledMasks.length === 1 ? '' : 's'}`);
+      setLabeledMasks([]);
+    } catch (error) {
+      console.error('Failed to create object layers:', error);
+      toast.error('Failed to create object layers');
+    }
+  };
+
+  const statusBadges = {
+    idle: { label: 'Not Loaded', className: 'bg-secondary text-muted-foreground' },
+    loading: { label: 'Loading', className: 'bg-yellow-900/20 text-yellow-400 border-yellow-400/20' },
+    ready: { label: 'Ready', className: 'bg-green-900/20 text-green-400 border-green-400/20' },
+    error: { label: 'Unavailable', className: 'bg-red-900/20 text-red-400 border-red-400/20' }
+  };
+  const statusBadge = segmentationMode === 'fallback'
+    ? { label: 'Fallback', className: 'bg-secondary text-muted-foreground' }
+    : statusBadges[samStatus];
 
   const segmentationTools = [
     {
@@ -41,6 +415,13 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
       description: 'AI-powered object segmentation',
       active: selectedTool === 'sam2-segment'
     },
+    {
+      id: 'sam2-box',
+      name: 'SAM2 Box',
+      icon: BoxSelect,
+      description: 'Box prompt around an object',
+      active: selectedTool === 'sam2-box'
+    },
     {
       id: 'magic-cut',
       name: 'Magic Cut',
@@ -117,7 +498,7 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
         </div>
 
         {/* SAM2 Settings */}
-        {selectedTool === 'sam2-segment' && (
+        {(selectedTool === 'sam2-segment' || selectedTool === 'sam2-box' || selectedTool === 'sam2-run') && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -125,35 +506,57 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
           >
             <h3 className="text-sm font-semibold text-muted-foreground">SAM2 Settings</h3>
             
-            {/* Threshold */}
+            {/* Engine */}
             <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Sensitivity</span>
-                <span>{threshold[0].toFixed(2)}</span>
-              </div>
-              <Slider
-                value={threshold}
-                onValueChange={setThreshold}
-                min={0.05}
-                max={0.5}
-                step={0.01}
-                className="w-full"
-              />
+              <span className="text-sm">Engine</span>
+              <Select
+                value={segmentationMode}
+                onValueChange={(value) => setSegmentationMode(value as SegmentationMode)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sam">SAM (in-browser)</SelectItem>
+                  <SelectItem value="fallback">Flood fill (fallback)</SelectItem>
+                </SelectContent>
+              </Select>
               <p className="text-xs text-muted-foreground">
-                Lower values = more precise, Higher values = more inclusive
+                Flood fill only groups similar colors and needs no model download
               </p>
             </div>
 
-            {/* Dilation */}
+            {/* Flood fill tolerance; SAM ignores it */}
+            {segmentationMode === 'fallback' && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>Color tolerance</span>
+                  <span>{floodFillTolerance}</span>
+                </div>
+                <Slider
+                  value={[floodFillTolerance]}
+                  onValueChange={([value]) => setFloodFillTolerance(value)}
+                  min={5}
+                  max={120}
+                  step={1}
+                  className="w-full"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lower values = more precise, Higher values = more inclusive
+                </p>
+              </div>
+            )}
+
+            {/* Grow / Shrink */}
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Edge Expansion</span>
-                <span>{dilate[0]}px</span>
+                <span>{(maskRefine.grow ?? 0) > 0 ? '+' : ''}{maskRefine.grow ?? 0}px</span>
               </div>
               <Slider
-                value={dilate}
-                onValueChange={setDilate}
-                min={0}
+                value={[maskRefine.grow ?? 0]}
+                onValueChange={([value]) => setMaskRefine({ grow: value })}
+                min={-10}
                 max={10}
                 step={1}
                 className="w-full"
@@ -167,7 +570,7 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
             <div className="flex items-center justify-between">
               <div>
                 <span className="text-sm font-medium">Include Edges</span>
-                <p className="text-xs text-muted-foreground">Better object boundaries</p>
+                <p className="text-xs text-muted-foreground">Snap edges to the image, soft alpha</p>
               </div>
               <Switch
                 checked={includeEdges}
@@ -175,6 +578,40 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
               />
             </div>
 
+            {includeEdges && (
+              <div className="space-y-4 pl-3 border-l border-panel-border">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Edge Radius</span>
+                    <span>{edgeRefine.radius ?? 4}px</span>
+                  </div>
+                  <Slider
+                    value={[edgeRefine.radius ?? 4]}
+                    onValueChange={([value]) => setEdgeRefine({ radius: value })}
+                    min={1}
+                    max={16}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Feather</span>
+                    <span>{edgeRefine.feather ?? 0}px</span>
+                  </div>
+                  <Slider
+                    value={[edgeRefine.feather ?? 0]}
+                    onValueChange={([value]) => setEdgeRefine({ feather: value })}
+                    min={0}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Auto Refine */}
             <div className="flex items-center justify-between">
               <div>
@@ -187,11 +624,76 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
               />
             </div>
 
+            {autoRefine && (
+              <div className="space-y-4 pl-3 border-l border-panel-border">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Smooth Gaps</span>
+                    <span>{maskRefine.close ?? 0}px</span>
+                  </div>
+                  <Slider
+                    value={[maskRefine.close ?? 0]}
+                    onValueChange={([value]) => setMaskRefine({ close: value })}
+                    min={0}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Remove Specks</span>
+                    <span>{maskRefine.open ?? 0}px</span>
+                  </div>
+                  <Slider
+                    value={[maskRefine.open ?? 0]}
+                    onValueChange={([value]) => setMaskRefine({ open: value })}
+                    min={0}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Min Island Area</span>
+                    <span>{maskRefine.minComponentArea ?? 0}px</span>
+                  </div>
+                  <Slider
+                    value={[maskRefine.minComponentArea ?? 0]}
+                    onValueChange={([value]) => setMaskRefine({ minComponentArea: value })}
+                    min={0}
+                    max={5000}
+                    step={16}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Fill Holes</span>
+                  <Switch
+                    checked={maskRefine.fillHoles ?? false}
+                    onCheckedChange={(checked) => setMaskRefine({ fillHoles: checked })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Keep Largest Only</span>
+                  <Switch
+                    checked={maskRefine.keepLargest ?? false}
+                    onCheckedChange={(checked) => setMaskRefine({ keepLargest: checked })}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Multi-object Mode */}
             <div className="flex items-center justify-between">
               <div>
                 <span className="text-sm font-medium">Multi-Object</span>
-                <p className="text-xs text-muted-foreground">Segment multiple objects</p>
+                <p className="text-xs text-muted-foreground">Segment every object with Run SAM2</p>
               </div>
               <Switch
                 checked={multiObject}
@@ -201,20 +703,406 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
           </motion.div>
         )}
 
+        {/* Magic Cut */}
+        {selectedTool === 'magic-cut' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-4"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">Magic Cut</h3>
+            <p className="text-xs text-muted-foreground">
+              Click the image to cut out its main subject into a new layer
+            </p>
+
+            <div className="space-y-2">
+              <span className="text-sm">Engine</span>
+              <Select
+                value={magicCutServer && hasLocalServer ? 'server' : segmentationMode}
+                onValueChange={handleMagicCutEngineChange}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sam">Background model (in-browser)</SelectItem>
+                  <SelectItem value="fallback">Border colors (fallback)</SelectItem>
+                  {hasLocalServer && <SelectItem value="server">Self-hosted server</SelectItem>}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The fallback works best on plain or studio backgrounds
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm">Background</span>
+              <Select
+                value={backgroundFill.type}
+                onValueChange={(value) => handleFillTypeChange(value as BackgroundFill['type'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="transparent">Transparent</SelectItem>
+                  <SelectItem value="color">Solid color</SelectItem>
+                  <SelectItem value="blur">Blurred original</SelectItem>
+                  <SelectItem value="image">Image</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {backgroundFill.type === 'color' && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Color</span>
+                <input
+                  type="color"
+                  value={fillColor}
+                  onChange={(e) => {
+                    setFillColor(e.target.value);
+                    setBackgroundFill({ type: 'color', color: e.target.value });
+                  }}
+                  className="h-8 w-12 rounded border border-panel-border bg-transparent cursor-pointer"
+                />
+              </div>
+            )}
+
+            {backgroundFill.type === 'blur' && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>Blur Radius</span>
+                  <span>{fillBlur}px</span>
+                </div>
+                <Slider
+                  value={[fillBlur]}
+                  onValueChange={([value]) => {
+                    setFillBlur(value);
+                    setBackgroundFill({ type: 'blur', radius: value });
+                  }}
+                  min={2}
+                  max={40}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            <input
+              ref={fillImageInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFillImageUpload}
+              className="hidden"
+            />
+
+            {backgroundFill.type === 'image' && (
+              <Button
+                variant="outline"
+                onClick={() => fillImageInputRef.current?.click()}
+                className="w-full justify-start hover:border-accent"
+              >
+                <ImagePlus className="w-4 h-4 mr-2" />
+                Choose Background Image
+              </Button>
+            )}
+
+            <Button
+              onClick={handleReplaceBackground}
+              disabled={!currentMask || backgroundFill.type === 'transparent'}
+              className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+            >
+              <Layers className="w-4 h-4 mr-2" />
+              Replace Background
+            </Button>
+          </motion.div>
+        )}
+
+        {/* Smart Erase */}
+        {(selectedTool === 'smart-erase' || selectedTool === 'erase') && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-4"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">Smart Erase</h3>
+            <p className="text-xs text-muted-foreground">
+              Paint over the object, or select it with SAM2 first. Alt+drag removes paint.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Brush Size</span>
+                <span>{brushSize}px</span>
+              </div>
+              <Slider
+                value={[brushSize]}
+                onValueChange={([value]) => setBrushSize(value)}
+                min={1}
+                max={200}
+                step={1}
+                className="w-full"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm font-medium">Use AI Provider</span>
+                <p className="text-xs text-muted-foreground">
+                  {hasInpaintProvider ? 'Off fills from nearby texture offline' : 'Add an API key to enable'}
+                </p>
+              </div>
+              <Switch
+                checked={eraseWithProvider && hasInpaintProvider}
+                onCheckedChange={setEraseWithProvider}
+                disabled={!hasInpaintProvider}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setMask(null)}
+                disabled={!currentMask}
+                className="hover:border-accent"
+              >
+                Clear Mask
+              </Button>
+              <Button
+                onClick={handleSmartErase}
+                disabled={!currentMask || isProcessing}
+                className="bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+              >
+                <Eraser className="w-4 h-4 mr-2" />
+                Erase
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Refine Mask */}
+        {selectedTool === 'refine-mask' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-4"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">Refine Brush</h3>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Brush Size</span>
+                <span>{brushSize}px</span>
+              </div>
+              <Slider
+                value={[brushSize]}
+                onValueChange={([value]) => setBrushSize(value)}
+                min={1}
+                max={200}
+                step={1}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Hardness</span>
+                <span>{Math.round(brushHardness * 100)}%</span>
+              </div>
+              <Slider
+                value={[brushHardness]}
+                onValueChange={([value]) => setBrushHardness(value)}
+                min={0}
+                max={1}
+                step={0.05}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Lower values feather the brush edge
+              </p>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Drag to add to the mask, Alt+drag to subtract.
+            </p>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={handleLoadLayerMask}
+                disabled={!activeLayer?.imageData}
+                className="hover:border-accent"
+              >
+                Load from Layer
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setMask(null)}
+                disabled={!currentMask}
+                className="hover:border-accent"
+              >
+                Clear Mask
+              </Button>
+            </div>
+            <Button
+              onClick={handleApplyRefinedMask}
+              disabled={!currentMask}
+              className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+            >
+              <Layers className="w-4 h-4 mr-2" />
+              Apply to {activeLayer?.imageData ? activeLayer.name : 'New Layer'}
+            </Button>
+          </motion.div>
+        )}
+
+        {/* Alpha Matting */}
+        {(currentMask || activeLayer?.imageData) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-4"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">Alpha Matting</h3>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Unknown Band</span>
+                <span>{trimapBand}px</span>
+              </div>
+              <Slider
+                value={[trimapBand]}
+                onValueChange={([value]) => setTrimapBand(value)}
+                min={2}
+                max={40}
+                step={1}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Wider bands capture longer hair and fur strands
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm font-medium">Show Trimap</span>
+                <p className="text-xs text-muted-foreground">White = object, gray = unknown</p>
+              </div>
+              <Switch
+                checked={trimapPreview}
+                onCheckedChange={setTrimapPreview}
+              />
+            </div>
+
+            <Button
+              onClick={handleAlphaMatting}
+              disabled={isProcessing}
+              className="w-full bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              Apply Alpha Matting
+            </Button>
+          </motion.div>
+        )}
+
+        {/* Mask Candidates */}
+        {maskCandidates.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-3"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">Mask Candidates</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {maskCandidates.map((candidate, index) => (
+                <button
+                  key={candidate.index}
+                  onClick={() => selectMaskCandidate(index)}
+                  className={`rounded-lg border p-1 text-xs transition-smooth ${
+                    index === activeCandidateIndex
+                      ? 'border-primary bg-primary/10 shadow-glow-primary'
+                      : 'border-panel-border bg-card hover:border-accent'
+                  }`}
+                >
+                  <img
+                    src={candidateThumbnails[index]}
+                    alt={`Mask candidate ${index + 1}`}
+                    className="w-full aspect-square object-contain rounded bg-muted"
+                  />
+                  <div className="mt-1 flex justify-between px-1">
+                    <span>#{index + 1}</span>
+                    <span className="text-muted-foreground">
+                      {candidate.score !== null ? candidate.score.toFixed(2) : '—'}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ranked by predicted IoU. Click a candidate to preview it on the canvas.
+            </p>
+          </motion.div>
+        )}
+
+        {/* Detected Objects */}
+        {labeledMasks.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-3"
+          >
+            <h3 className="text-sm font-semibold text-muted-foreground">
+              Detected Objects ({labeledMasks.length})
+            </h3>
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {labeledMasks.map((object) => (
+                <div
+                  key={object.label}
+                  className="flex justify-between rounded-md border border-panel-border bg-card px-2 py-1 text-xs"
+                >
+                  <span>{object.label}</span>
+                  <span className="text-muted-foreground">
+                    {object.mask.area.toLocaleString()}px · {object.score !== null ? object.score.toFixed(2) : '—'}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={handleCreateObjectLayers}
+                className="flex-1 bg-gradient-primary hover:shadow-glow-primary transition-smooth"
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                Create Layers
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setLabeledMasks([])}
+                className="hover:border-accent"
+              >
+                Discard
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Quick Actions */}
         <div className="space-y-3">
           <h3 className="text-sm font-semibold text-muted-foreground">Quick Actions</h3>
           
           <Button
             variant="outline"
+            onClick={() => setMaskPreviewVisible(!maskPreviewVisible)}
+            disabled={!activeCandidate && labeledMasks.length === 0}
             className="w-full justify-start hover:border-accent hover:shadow-glow-accent transition-smooth"
           >
             <Eye className="w-4 h-4 mr-2" />
-            Preview Mask
+            {(activeCandidate || labeledMasks.length > 0) && maskPreviewVisible ? 'Hide Preview' : 'Preview Mask'}
           </Button>
           
           <Button
             variant="outline"
+            onClick={handleAddToLayer}
+            disabled={!activeCandidate}
             className="w-full justify-start hover:border-accent hover:shadow-glow-accent transition-smooth"
           >
             <Layers className="w-4 h-4 mr-2" />
@@ -223,10 +1111,12 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
           
           <Button
             variant="outline"
+            onClick={handleExportMask}
+            disabled={!currentImage}
             className="w-full justify-start hover:border-accent hover:shadow-glow-accent transition-smooth"
           >
             <Download className="w-4 h-4 mr-2" />
-            Export Mask
+            Export Mask (COCO)
           </Button>
         </div>
 
@@ -234,18 +1124,18 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
         <div className="p-3 rounded-lg bg-card border border-border">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium">SAM2 Status</span>
-            <Badge variant="secondary" className="bg-green-900/20 text-green-400 border-green-400/20">
-              Ready
+            <Badge variant="secondary" className={statusBadge.className}>
+              {statusBadge.label}
             </Badge>
           </div>
           <div className="space-y-1 text-xs text-muted-foreground">
             <div className="flex justify-between">
               <span>Model:</span>
-              <span>facebook/sam-vit-base</span>
+              <span>{segmentationMode === 'sam' ? segmentationService.modelId : 'Color flood fill'}</span>
             </div>
             <div className="flex justify-between">
               <span>Device:</span>
-              <span>WebGPU</span>
+              <span>WASM (CPU)</span>
             </div>
             <div className="flex justify-between">
               <span>Memory:</span>
@@ -259,9 +1149,9 @@ export const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
           <h4 className="text-sm font-medium mb-2 text-primary">How to use SAM2</h4>
           <ol className="text-xs text-muted-foreground space-y-1">
             <li>1. Select SAM2 Segment tool</li>
-            <li>2. Click on any object in the image</li>
+            <li>2. Click on any object, or drag a box with SAM2 Box</li>
             <li>3. Wait for AI to process segmentation</li>
-            <li>4. Refine settings if needed</li>
+            <li>4. Pick the best mask candidate</li>
             <li>5. Add result to layers or export</li>
           </ol>
         </div>
@@ -14,7 +14,9 @@ import {
   Bot,
   Image,
   Target,
-  Brush
+  Brush,
+  BoxSelect,
+  ListTodo
 } from 'lucide-react';
 
 interface Tool {
@@ -30,6 +32,9 @@ interface ToolPanelProps {
   onToolSelect: (toolId: string) => void;
   onShowAI: () => void;
   onShowLayers: () => void;
+  onShowQueue: () => void;
+  // Queued and running jobs, shown on the queue button
+  activeJobs: number;
 }
 
 const tools: Tool[] = [
@@ -41,6 +46,7 @@ const tools: Tool[] = [
     category: 'selection'
   },
     { id: 'sam2-segment', name: 'SAM2 Points', icon: Target, description: 'Add positive (click) / negative (shift+click) points', category: 'selection' },
+    { id: 'sam2-box', name: 'SAM2 Box', icon: BoxSelect, description: 'Drag a box around an object', category: 'selection' },
     { id: 'sam2-run', name: 'Run SAM2', icon: Scissors, description: 'Run segmentation with selected points', category: 'selection' },
   {
     id: 'magic-cut',
@@ -76,7 +82,9 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
   selectedTool,
   onToolSelect,
   onShowAI,
-  onShowLayers
+  onShowLayers,
+  onShowQueue,
+  activeJobs
 }) => {
   const [activeCategory, setActiveCategory] = useState<string>('selection');
 
@@ -162,6 +170,18 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
             Layers
             <Badge variant="outline" className="ml-auto">3</Badge>
           </Button>
+
+          <Button
+            variant="outline"
+            onClick={onShowQueue}
+            className="w-full justify-start hover:border-accent hover:shadow-glow-accent transition-smooth"
+          >
+            <ListTodo className="w-4 h-4 mr-2" />
+            Job Queue
+            {activeJobs > 0 && (
+              <Badge variant="secondary" className="ml-auto">{activeJobs}</Badge>
+            )}
+          </Button>
           
           <Button
             variant="outline"
@@ -173,7 +193,7 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
         </div>
       </div>
 
-      {(selectedTool === 'sam2-segment' || selectedTool === 'sam2-run') && (
+      {(['sam2-segment', 'sam2-box', 'sam2-run'].includes(selectedTool)) && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -197,9 +217,14 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
                 </div>
               </div>
             </div>
+          ) : selectedTool === 'sam2-box' ? (
+            <p className="text-sm text-muted-foreground mb-3">
+              Drag a <span className="text-green-500 font-medium">box</span> around the object. Points added with SAM2 Points are combined with the box.
+            </p>
           ) : (
             <p className="text-sm text-muted-foreground mb-3">
-              Run segmentation with the points you've added. This will create separate layers for the selected object and background.
+              Run segmentation with the points and box you've added. This will create separate layers for the selected object and background.
+              With Multi-Object enabled, click anywhere to segment every object instead.
             </p>
           )}
           <div className="space-y-2">
@@ -0,0 +1,27 @@
+import { toast } from 'sonner';
+import { checkBudget } from '@/services/budget';
+import { formatCents } from '@/lib/usage';
+import type { ModelDefinition } from '@/services/providers/types';
+
+// Asks before starting a job that would take this month over budget; resolves false unless the user runs it anyway
+export const confirmWithinBudget = async (model: ModelDefinition): Promise<boolean> => {
+  let check;
+  try {
+    check = await checkBudget(model.costCents ?? 0);
+  } catch (error) {
+    // Without usage data there is nothing to warn about; the job itself must not be blocked
+    console.warn('Failed to check the monthly budget:', error);
+    return true;
+  }
+  if (!check) return true;
+
+  return new Promise(resolve => {
+    toast.warning('Monthly AI budget would be exceeded', {
+      description: `${model.name} would bring this month to ${formatCents(check.projectedCents)} of your ${formatCents(check.budgetCents)} budget`,
+      duration: 10000,
+      action: { label: 'Run anyway', onClick: () => resolve(true) },
+      onDismiss: () => resolve(false),
+      onAutoClose: () => resolve(false),
+    });
+  });
+};
@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { predictionStore } from '@/services/aiService';
+import { monthlyBudget } from '@/services/budget';
+import { getModel, PROVIDERS } from '@/services/providers/registry';
+import {
+  formatCents,
+  startOfMonth,
+  startOfRange,
+  totalCostCents,
+  usageByDay,
+  usageByModel
+} from '@/lib/usage';
+import { ArrowLeft, BarChart3 } from 'lucide-react';
+
+const RANGES = [7, 30, 90];
+
+// Only providers that bill per call are charted
+const CHART_CONFIG = {
+  replicate: { label: PROVIDERS.replicate.name, color: 'hsl(var(--primary))' },
+  deepinfra: { label: PROVIDERS.deepinfra.name, color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const MODEL_CHART_CONFIG = {
+  cost: { label: 'Cost', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatDollars = (dollars: number) => formatCents(dollars * 100);
+
+export const UsageDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [budgetCents, setBudgetCents] = useState(monthlyBudget.get);
+  const [budgetInput, setBudgetInput] = useState(() => {
+    const budget = monthlyBudget.get();
+    return budget === null ? '' : String(budget / 100);
+  });
+
+  // The month so far is always loaded, since the budget covers it whatever range is charted
+  const now = new Date();
+  const monthStart = startOfMonth(now);
+  const rangeStart = startOfRange(days, now);
+  const since = rangeStart < monthStart ? rangeStart : monthStart;
+
+  const { data: records = [], isLoading, error } = useQuery({
+    queryKey: ['predictions', since.toISOString()],
+    queryFn: () => predictionStore.list(since),
+  });
+
+  const inRange = records.filter(r => new Date(r.createdAt) >= rangeStart);
+  const monthCents = totalCostCents(records.filter(r => new Date(r.createdAt) >= monthStart));
+
+  // Charts plot dollars
+  const dailyData = usageByDay(inRange, days, now).map(day => ({
+    date: day.date,
+    replicate: (day.byProvider.replicate ?? 0) / 100,
+    deepinfra: (day.byProvider.deepinfra ?? 0) / 100,
+  }));
+  const models = usageByModel(inRange);
+  const modelData = models
+    .filter(model => model.costCents > 0)
+    .map(model => ({ model: getModel(model.modelId)?.name ?? model.modelId, cost: model.costCents / 100 }));
+
+  const saveBudget = () => {
+    const dollars = parseFloat(budgetInput);
+    const cents = Number.isFinite(dollars) && dollars > 0 ? Math.round(dollars * 100) : null;
+    monthlyBudget.set(cents);
+    setBudgetCents(cents);
+    setBudgetInput(cents === null ? '' : String(cents / 100));
+  };
+
+  const budgetUsed = budgetCents ? Math.min(100, (monthCents / budgetCents) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-16 bg-panel-bg border-b border-panel-border px-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Editor
+            </Link>
+          </Button>
+          <h1 className="text-xl font-bold flex items-center gap-2">
+            <BarChart3 className="w-5 h-5" />
+            AI Usage
+          </h1>
+        </div>
+
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(range => (
+              <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </header>
+
+      <main className="p-6 space-y-6 max-w-6xl mx-auto">
+        {error && (
+          <p className="text-sm text-destructive">
+            Failed to load usage: {error instanceof Error ? error.message : String(error)}
+          </p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Spent this month</CardDescription>
+              <CardTitle className="text-2xl">{formatCents(monthCents)}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {budgetCents ? (
+                <>
+                  <Progress value={budgetUsed} className="h-2" />
+                  <p className={`text-xs ${monthCents > budgetCents ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {formatCents(monthCents)} of {formatCents(budgetCents)} budget
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">No monthly budget set</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Runs in the last {days} days</CardDescription>
+              <CardTitle className="text-2xl">{inRange.length}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">
+                {formatCents(totalCostCents(inRange))} estimated, {inRange.filter(r => r.status === 'failed').length} failed
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Monthly budget</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="monthly-budget" className="text-xs text-muted-foreground">
+                Jobs that would go over it ask before starting
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="monthly-budget"
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder="USD, empty for none"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveBudget()}
+                />
+                <Button variant="secondary" onClick={saveBudget}>Save</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Cost per day</CardTitle>
+            <CardDescription>Estimated from each model's price per run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={CHART_CONFIG} className="h-64 w-full aspect-auto">
+              <BarChart data={dailyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={formatDollars} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${CHART_CONFIG[name as keyof typeof CHART_CONFIG]?.label ?? name}: ${formatDollars(Number(value))}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="replicate" stackId="cost" fill="var(--color-replicate)" />
+                <Bar dataKey="deepinfra" stackId="cost" fill="var(--color-deepinfra)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Cost per model</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {modelData.length > 0 && (
+              <ChartContainer
+                config={MODEL_CHART_CONFIG}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(120, modelData.length * 40) }}
+              >
+                <BarChart data={modelData} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatDollars} />
+                  <YAxis type="category" dataKey="model" tickLine={false} axisLine={false} width={160} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatDollars(Number(value))} />} />
+                  <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead className="text-right">Runs</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Avg latency</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map(model => (
+                  <TableRow key={model.modelId}>
+                    <TableCell>{getModel(model.modelId)?.name ?? model.modelId}</TableCell>
+                    <TableCell>{PROVIDERS[model.provider]?.name ?? model.provider}</TableCell>
+                    <TableCell className="max-w-48 truncate text-xs text-muted-foreground" title={model.modelVersions.join('\n')}>
+                      {model.modelVersions[model.modelVersions.length - 1]}
+                    </TableCell>
+                    <TableCell className="text-right">{model.runs}</TableCell>
+                    <TableCell className="text-right">{model.failed}</TableCell>
+                    <TableCell className="text-right">
+                      {model.avgLatencyMs === null ? '-' : `${(model.avgLatencyMs / 1000).toFixed(1)}s`}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCents(model.costCents)}</TableCell>
+                  </TableRow>
+                ))}
+                {models.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      {isLoading ? 'Loading usage...' : 'No AI runs in this period'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
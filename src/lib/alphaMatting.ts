@@ -0,0 +1,151 @@
+import { Mask, createMask } from './mask';
+import { dilate, erode } from './maskOps';
+import { guidedFilter } from './edgeRefine';
+
+export const TRIMAP_BACKGROUND = 0;
+export const TRIMAP_UNKNOWN = 128;
+export const TRIMAP_FOREGROUND = 255;
+
+// Known background, unknown band and known foreground around the mask boundary
+export interface Trimap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface MattingOptions {
+  // Width in pixels of the unknown band on each side of the mask edge
+  bandWidth?: number;
+  // How far to look for known foreground/background colors from an unknown pixel
+  searchRadius?: number;
+}
+
+// Rays searched from every unknown pixel for color samples
+const SEARCH_DIRECTIONS = 8;
+
+export const buildTrimap = (mask: Mask, bandWidth: number): Trimap => {
+  const band = Math.max(1, Math.round(bandWidth));
+  const inner = erode(mask, band);
+  const outer = dilate(mask, band);
+  const data = new Uint8Array(mask.width * mask.height);
+
+  for (let i = 0; i < data.length; i++) {
+    data[i] = inner.data[i] ? TRIMAP_FOREGROUND : outer.data[i] ? TRIMAP_UNKNOWN : TRIMAP_BACKGROUND;
+  }
+  return { width: mask.width, height: mask.height, data };
+};
+
+// Grayscale view of the trimap for the canvas preview
+export const trimapToImageData = (trimap: Trimap): ImageData => {
+  const image = new ImageData(trimap.width, trimap.height);
+  for (let i = 0; i < trimap.data.length; i++) {
+    const idx = i * 4;
+    image.data[idx] = trimap.data[i];
+    image.data[idx + 1] = trimap.data[i];
+    image.data[idx + 2] = trimap.data[i];
+    image.data[idx + 3] = 255;
+  }
+  return image;
+};
+
+// Sampling-based matting: every unknown pixel walks rays to the nearest known foreground and
+// background, picks the F/B color pair that best explains its color, and solves for alpha.
+// A guided filter pass then removes the per-pixel noise of independent estimates.
+export const estimateAlpha = (
+  image: ImageData,
+  trimap: Trimap,
+  { searchRadius = 40 }: MattingOptions = {},
+  onProgress?: (progress: number) => void
+): Mask => {
+  const { width, height, data: labels } = trimap;
+  const pixels = image.data;
+  const alpha = new Float32Array(width * height);
+  const foreground: number[] = [];
+  const background: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    if (onProgress && y % 64 === 0) onProgress(y / height);
+
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (labels[i] !== TRIMAP_UNKNOWN) {
+        alpha[i] = labels[i] === TRIMAP_FOREGROUND ? 1 : 0;
+        continue;
+      }
+
+      // Rotate the ray fan per pixel so neighbours sample different known pixels
+      foreground.length = 0;
+      background.length = 0;
+      const offset = ((x * 3 + y * 7) % SEARCH_DIRECTIONS) * (Math.PI / SEARCH_DIRECTIONS / 2);
+      for (let d = 0; d < SEARCH_DIRECTIONS; d++) {
+        const angle = offset + (d * 2 * Math.PI) / SEARCH_DIRECTIONS;
+        const dx = Math.cos(angle);
+        const dy = Math.sin(angle);
+        let foundF = false;
+        let foundB = false;
+
+        for (let step = 1; step <= searchRadius && !(foundF && foundB); step++) {
+          const sx = Math.round(x + dx * step);
+          const sy = Math.round(y + dy * step);
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) break;
+          const s = sy * width + sx;
+          if (!foundF && labels[s] === TRIMAP_FOREGROUND) {
+            foreground.push(s);
+            foundF = true;
+          } else if (!foundB && labels[s] === TRIMAP_BACKGROUND) {
+            background.push(s);
+            foundB = true;
+          }
+        }
+      }
+
+      if (foreground.length === 0 || background.length === 0) {
+        alpha[i] = foreground.length > 0 ? 1 : background.length > 0 ? 0 : 0.5;
+        continue;
+      }
+
+      const ir = pixels[i * 4], ig = pixels[i * 4 + 1], ib = pixels[i * 4 + 2];
+      let bestCost = Infinity;
+      let bestAlpha = 0.5;
+
+      for (const f of foreground) {
+        const fr = pixels[f * 4], fg = pixels[f * 4 + 1], fb = pixels[f * 4 + 2];
+        for (const b of background) {
+          const br = pixels[b * 4], bg = pixels[b * 4 + 1], bb = pixels[b * 4 + 2];
+          const fbr = fr - br, fbg = fg - bg, fbb = fb - bb;
+          const denominator = fbr * fbr + fbg * fbg + fbb * fbb;
+
+          // Projection of I - B onto F - B
+          const a = denominator < 1
+            ? 0.5
+            : Math.min(1, Math.max(0, ((ir - br) * fbr + (ig - bg) * fbg + (ib - bb) * fbb) / denominator));
+
+          // Chromatic distortion of I against the composite aF + (1 - a)B
+          const er = ir - (a * fr + (1 - a) * br);
+          const eg = ig - (a * fg + (1 - a) * bg);
+          const eb = ib - (a * fb + (1 - a) * bb);
+          const cost = er * er + eg * eg + eb * eb;
+
+          if (cost < bestCost) {
+            bestCost = cost;
+            bestAlpha = a;
+          }
+        }
+      }
+      alpha[i] = bestAlpha;
+    }
+  }
+
+  const smoothed = guidedFilter(image, createMask(width, height, alpha), 2, 1e-4);
+
+  // Known regions keep their exact values
+  for (let i = 0; i < alpha.length; i++) {
+    if (labels[i] === TRIMAP_UNKNOWN) alpha[i] = smoothed.data[i];
+  }
+
+  onProgress?.(1);
+  return createMask(width, height, alpha);
+};
+
+export const matteMask = (image: ImageData, mask: Mask, options: MattingOptions = {}, onProgress?: (progress: number) => void): Mask =>
+  estimateAlpha(image, buildTrimap(mask, options.bandWidth ?? 10), options, onProgress);
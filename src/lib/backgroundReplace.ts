@@ -0,0 +1,78 @@
+import type { Layer } from './editorStore';
+import { Mask, toAlphaMatte } from './mask';
+import { loadImage } from './maskLayers';
+
+// What Magic Cut puts behind the cut-out subject
+export type BackgroundFill =
+  | { type: 'transparent' }
+  | { type: 'color'; color: string }
+  | { type: 'blur'; radius: number }
+  | { type: 'image'; src: string };
+
+// Only the pixels outside the mask, so the subject does not bleed into the blurred background
+const backgroundOnly = (image: HTMLImageElement, mask: Mask): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+
+  const pixels = ctx.getImageData(0, 0, image.width, image.height);
+  const coverage = toAlphaMatte(mask);
+  for (let i = 0; i < coverage.length; i++) {
+    pixels.data[i * 4 + 3] = 255 - coverage[i];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+const drawBlurred = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, mask: Mask, radius: number) => {
+  ctx.filter = `blur(${radius}px)`;
+  // The whole image blurred fills the area deep under the subject where no background is near
+  ctx.drawImage(image, 0, 0);
+  // Blurring the background alone normalises by its alpha, which removes the subject halo
+  ctx.drawImage(backgroundOnly(image, mask), 0, 0);
+  ctx.filter = 'none';
+};
+
+// Scales the replacement image to cover the canvas, cropping the overflow evenly
+const drawCover = (ctx: CanvasRenderingContext2D, replacement: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / replacement.width, height / replacement.height);
+  const drawWidth = replacement.width * scale;
+  const drawHeight = replacement.height * scale;
+  ctx.drawImage(replacement, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Layer to place under the cut-out subject; null when the background stays transparent
+export const backgroundLayer = async (
+  image: HTMLImageElement,
+  mask: Mask,
+  fill: BackgroundFill
+): Promise<Partial<Layer> | null> => {
+  if (fill.type === 'transparent') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+
+  switch (fill.type) {
+    case 'color':
+      ctx.fillStyle = fill.color;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      break;
+    case 'blur':
+      drawBlurred(ctx, image, mask, fill.radius);
+      break;
+    case 'image':
+      drawCover(ctx, await loadImage(fill.src), canvas.width, canvas.height);
+      break;
+  }
+
+  const names = { color: 'Background Color', blur: 'Blurred Background', image: 'Background Image' };
+  return {
+    name: names[fill.type],
+    thumbnail: canvas.toDataURL(),
+    imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Layer } from './editorStore';
+import { createMask } from './mask';
+import { buildCocoDataset, layersToInstances } from './cocoExport';
+
+// RGBA pixels with the given alpha values; the colour channels do not matter for export
+const imageData = (width: number, height: number, alpha: number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  alpha.forEach((a, i) => { data[i * 4 + 3] = a; });
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+const layer = (name: string, alpha: number[], extra: Partial<Layer> = {}): Layer => ({
+  id: name,
+  name,
+  visible: true,
+  locked: false,
+  opacity: 100,
+  blendMode: 'normal',
+  imageData: imageData(2, 2, alpha),
+  ...extra,
+});
+
+const IMAGE = { id: 1, file_name: 'image.png', width: 2, height: 2 };
+
+describe('layersToInstances', () => {
+  it('exports segment layers only', () => {
+    const instances = layersToInstances([
+      layer('Background (Unselected)', [0, 255, 255, 255]),
+      layer('Selected Object', [255, 0, 0, 0], { kind: 'segment' }),
+      layer('Background Color', [255, 255, 255, 255]),
+      layer('AI Inpaint', [255, 255, 0, 0]),
+      layer('cat', [0, 0, 255, 255], { kind: 'segment' }),
+      { ...layer('empty segment', []), kind: 'segment', imageData: undefined },
+    ]);
+
+    expect(instances.map(i => i.label)).toEqual(['Selected Object', 'cat']);
+    expect(instances[0].mask.area).toBe(1);
+    expect(instances[1].mask.area).toBe(2);
+  });
+});
+
+describe('buildCocoDataset', () => {
+  it('skips empty masks without leaving their category behind', () => {
+    const dataset = buildCocoDataset(IMAGE, [
+      { label: 'ghost', mask: createMask(2, 2, new Uint8Array(4)) },
+      { label: 'cat', mask: createMask(2, 2, Uint8Array.from([255, 0, 0, 0])), score: 0.9 },
+      { label: 'cat', mask: createMask(2, 2, Uint8Array.from([0, 0, 255, 255])) },
+    ]);
+
+    expect(dataset.categories).toEqual([{ id: 1, name: 'cat', supercategory: 'object' }]);
+    expect(dataset.annotations.map(a => [a.id, a.category_id, a.area, a.bbox])).toEqual([
+      [1, 1, 1, [0, 0, 1, 1]],
+      [2, 1, 2, [0, 1, 2, 1]],
+    ]);
+    expect(dataset.annotations[0].score).toBe(0.9);
+    expect(dataset.annotations[1]).not.toHaveProperty('score');
+  });
+});
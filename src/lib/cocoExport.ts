@@ -0,0 +1,115 @@
+import JSZip from 'jszip';
+import type { Layer } from './editorStore';
+import { Mask, maskFromImageData } from './mask';
+import { BBox, CompressedRLE, maskToCoco } from './rle';
+
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  segmentation: CompressedRLE;
+  area: number;
+  bbox: BBox;
+  iscrowd: 0 | 1;
+  score?: number;
+}
+
+// COCO instances file (instances_*.json)
+export interface CocoDataset {
+  info: { description: string; version: string; date_created: string };
+  images: CocoImage[];
+  categories: CocoCategory[];
+  annotations: CocoAnnotation[];
+}
+
+export interface CocoInstance {
+  label: string;
+  mask: Mask;
+  score?: number | null;
+}
+
+// Categories are the distinct labels in order of first appearance
+export const buildCocoDataset = (image: CocoImage, instances: CocoInstance[]): CocoDataset => {
+  const categories: CocoCategory[] = [];
+  const categoryIds = new Map<string, number>();
+  const annotations: CocoAnnotation[] = [];
+
+  for (const { label, mask, score } of instances) {
+    // Empty masks are skipped before their label can become a category with no annotations
+    const { segmentation, area, bbox } = maskToCoco(mask);
+    if (area === 0) continue;
+
+    let categoryId = categoryIds.get(label);
+    if (categoryId === undefined) {
+      categoryId = categories.length + 1;
+      categoryIds.set(label, categoryId);
+      categories.push({ id: categoryId, name: label, supercategory: 'object' });
+    }
+
+    annotations.push({
+      id: annotations.length + 1,
+      image_id: image.id,
+      category_id: categoryId,
+      segmentation,
+      area,
+      bbox,
+      // RLE masks here are single instances, not crowd regions
+      iscrowd: 0,
+      ...(score != null && { score }),
+    });
+  }
+
+  return {
+    info: {
+      description: 'AI Image Editor export',
+      version: '1.0',
+      date_created: new Date().toISOString(),
+    },
+    images: [image],
+    categories,
+    annotations,
+  };
+};
+
+// Segmented layers carry their mask in the alpha channel; fills, AI results and inverse cutouts are not objects
+export const layersToInstances = (layers: Layer[]): CocoInstance[] =>
+  layers
+    .filter(layer => layer.kind === 'segment' && layer.imageData)
+    .map(layer => ({ label: layer.name, mask: maskFromImageData(layer.imageData!, 'alpha') }));
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+// Zip with images/<file> and annotations/instances_default.json
+export const createCocoZip = async (
+  imageSrc: string,
+  size: { width: number; height: number },
+  instances: CocoInstance[]
+): Promise<Blob> => {
+  const imageBlob = await (await fetch(imageSrc)).blob();
+  const fileName = `image.${IMAGE_EXTENSIONS[imageBlob.type] ?? 'png'}`;
+  const dataset = buildCocoDataset({ id: 1, file_name: fileName, ...size }, instances);
+
+  const zip = new JSZip();
+  zip.file(`images/${fileName}`, imageBlob);
+  zip.file('annotations/instances_default.json', JSON.stringify(dataset));
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,23 @@
+import { createMask } from './mask';
+import { guidedFilter } from './edgeRefine';
+
+// Guided filter on each channel with the image's luma as guide: flat areas are smoothed, luma edges with more
+// contrast than the noise stay sharp, and all channels keep their edges in the same place.
+// strength 0..1 sets how much local variance is treated as noise
+export const denoiseImage = (image: ImageData, strength: number): ImageData => {
+  const result = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  if (strength <= 0) return result;
+
+  const epsilon = (0.02 + 0.08 * Math.min(strength, 1)) ** 2;
+  const total = image.width * image.height;
+
+  for (let channel = 0; channel < 3; channel++) {
+    const values = new Float32Array(total);
+    for (let i = 0; i < total; i++) values[i] = image.data[i * 4 + channel] / 255;
+
+    const filtered = guidedFilter(image, createMask(image.width, image.height, values), 2, epsilon);
+    for (let i = 0; i < total; i++) result.data[i * 4 + channel] = Math.round(filtered.data[i] * 255);
+  }
+
+  return result;
+};
@@ -0,0 +1,126 @@
+import { Mask, createMask, maskValue } from './mask';
+
+export interface EdgeRefineOptions {
+  // Guided filter window radius in pixels; larger windows snap to edges further from the mask boundary
+  radius?: number;
+  // Regularisation; smaller values follow weaker image edges
+  epsilon?: number;
+  // Final blur of the matte in pixels, 0 keeps the filtered edge as is
+  feather?: number;
+}
+
+const DEFAULT_EDGE_OPTIONS: Required<EdgeRefineOptions> = {
+  radius: 4,
+  epsilon: 1e-3,
+  feather: 1,
+};
+
+// Mean over a (2r + 1)^2 window, clamped at the image border; two separable running-sum passes
+const boxMean = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const tmp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += src[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += src[row + x + radius];
+      if (x - radius - 1 >= 0) sum -= src[row + x - radius - 1];
+      const count = Math.min(x + radius, width - 1) - Math.max(x - radius, 0) + 1;
+      tmp[row + x] = sum / count;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) sum += tmp[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += tmp[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) sum -= tmp[(y - radius - 1) * width + x];
+      const count = Math.min(y + radius, height - 1) - Math.max(y - radius, 0) + 1;
+      out[y * width + x] = sum / count;
+    }
+  }
+
+  return out;
+};
+
+// Luma in [0, 1], used as the filter guide
+const toGray = (image: ImageData): Float32Array => {
+  const gray = new Float32Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    const idx = i * 4;
+    gray[i] = (0.299 * image.data[idx] + 0.587 * image.data[idx + 1] + 0.114 * image.data[idx + 2]) / 255;
+  }
+  return gray;
+};
+
+// Guided filter (He et al.) with the image as guide: the output is locally a linear function of the
+// image, so mask transitions move onto image edges and stair steps become soft ramps
+export const guidedFilter = (image: ImageData, mask: Mask, radius: number, epsilon: number): Mask => {
+  const { width, height } = mask;
+  if (image.width !== width || image.height !== height) {
+    throw new Error('Guide image and mask sizes differ');
+  }
+
+  const guide = toGray(image);
+  const p = new Float32Array(width * height);
+  for (let i = 0; i < p.length; i++) p[i] = maskValue(mask, i);
+
+  const ip = new Float32Array(p.length);
+  const ii = new Float32Array(p.length);
+  for (let i = 0; i < p.length; i++) {
+    ip[i] = guide[i] * p[i];
+    ii[i] = guide[i] * guide[i];
+  }
+
+  const meanI = boxMean(guide, width, height, radius);
+  const meanP = boxMean(p, width, height, radius);
+  const meanIp = boxMean(ip, width, height, radius);
+  const meanII = boxMean(ii, width, height, radius);
+
+  const a = new Float32Array(p.length);
+  const b = new Float32Array(p.length);
+  for (let i = 0; i < p.length; i++) {
+    const covIp = meanIp[i] - meanI[i] * meanP[i];
+    const varI = meanII[i] - meanI[i] * meanI[i];
+    a[i] = covIp / (varI + epsilon);
+    b[i] = meanP[i] - a[i] * meanI[i];
+  }
+
+  const meanA = boxMean(a, width, height, radius);
+  const meanB = boxMean(b, width, height, radius);
+  const q = new Float32Array(p.length);
+  for (let i = 0; i < q.length; i++) {
+    q[i] = Math.min(1, Math.max(0, meanA[i] * guide[i] + meanB[i]));
+  }
+
+  return createMask(width, height, q);
+};
+
+// Three box passes approximate a Gaussian blur of the given radius
+export const featherMask = (mask: Mask, radius: number): Mask => {
+  const { width, height } = mask;
+  let values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) values[i] = maskValue(mask, i);
+
+  const passRadius = Math.max(1, Math.round(radius / Math.sqrt(3)));
+  for (let pass = 0; pass < 3; pass++) {
+    values = boxMean(values, width, height, passRadius);
+  }
+  return createMask(width, height, values);
+};
+
+// Soft alpha matte whose edges follow the image
+export const refineEdges = (image: ImageData, mask: Mask, options: EdgeRefineOptions = {}): Mask => {
+  const radius = options.radius ?? DEFAULT_EDGE_OPTIONS.radius;
+  const epsilon = options.epsilon ?? DEFAULT_EDGE_OPTIONS.epsilon;
+  const feather = options.feather ?? DEFAULT_EDGE_OPTIONS.feather;
+
+  let result = guidedFilter(image, mask, Math.max(1, Math.round(radius)), epsilon);
+  if (feather > 0) {
+    result = featherMask(result, feather);
+  }
+  return result;
+};
@@ -1,4 +1,12 @@
 import { create } from 'zustand';
+import type { APIKeys, LabeledMask, SegmentationCandidate, SegmentationMode } from '@/services/aiService';
+import type { Mask } from './mask';
+import type { MaskRefineOptions } from './maskOps';
+import type { EdgeRefineOptions } from './edgeRefine';
+import type { BackgroundFill } from './backgroundReplace';
+import type { JobSnapshot } from '@/services/jobQueue';
+
+export type SAMStatus = 'idle' | 'loading' | 'ready' | 'error';
 
 export interface Layer {
   id: string;
@@ -9,6 +17,8 @@ export interface Layer {
   blendMode: string;
   thumbnail?: string;
   imageData?: ImageData;
+  // 'segment' marks layers cut out by a segmentation mask; only those are exported as annotations
+  kind?: 'segment';
 }
 
 export interface EditorStore {
@@ -23,32 +33,83 @@ export interface EditorStore {
   // Tools
   selectedTool: string;
   brushSize: number;
+  // Refine brush edge: 1 = hard, 0 = fully feathered
+  brushHardness: number;
   
   // Selection and masks
-  currentMask: ImageData | null;
+  currentMask: Mask | null;
   selection: { x: number; y: number; width: number; height: number } | null;
   
+  // Segmentation
+  segmentationMode: SegmentationMode;
+  // Flood fill colour tolerance, as an RGB distance
+  floodFillTolerance: number;
+  samStatus: SAMStatus;
+  maskCandidates: SegmentationCandidate[];
+  activeCandidateIndex: number | null;
+  maskPreviewVisible: boolean;
+  // Edge expansion (grow) always applies; the other steps only with autoRefine
+  maskRefine: MaskRefineOptions;
+  autoRefine: boolean;
+  // Guided filter edge refinement ("Include Edges")
+  includeEdges: boolean;
+  edgeRefine: EdgeRefineOptions;
+  // Alpha matting: unknown band width and whether the canvas shows the trimap
+  trimapBand: number;
+  trimapPreview: boolean;
+  // Magic Cut: what goes behind the cut-out subject
+  backgroundFill: BackgroundFill;
+  // Magic Cut asks the self-hosted server for the mask instead of the in-browser engines
+  magicCutServer: boolean;
+  // Automatic mode segments every object instead of following prompts
+  multiObject: boolean;
+  labeledMasks: LabeledMask[];
+  
   // Processing
   isProcessing: boolean;
   processingMessage: string;
+  // 0..1 when the running operation reports progress, null otherwise
+  processingProgress: number | null;
+  // Cancels the running operation from the processing overlay, when it supports cancelling
+  processingAbort: AbortController | null;
+  // Provider jobs run in the background queue and do not block the canvas
+  jobs: JobSnapshot[];
   
   // API Configuration
-  apiKeys: {
-    replicate?: string;
-    deepinfra?: string;
-  };
+  apiKeys: APIKeys;
   
   // Actions
   setCurrentImage: (image: string | null) => void;
   setSelectedTool: (tool: string) => void;
   setBrushSize: (size: number) => void;
-  setMask: (mask: ImageData | null) => void;
+  setBrushHardness: (hardness: number) => void;
+  setMask: (mask: Mask | null) => void;
   setSelection: (selection: { x: number; y: number; width: number; height: number } | null) => void;
-  setProcessing: (isProcessing: boolean, message?: string) => void;
-  setAPIKeys: (keys: { replicate?: string; deepinfra?: string }) => void;
+  setSegmentationMode: (mode: SegmentationMode) => void;
+  setFloodFillTolerance: (tolerance: number) => void;
+  setSAMStatus: (status: SAMStatus) => void;
+  setMaskCandidates: (candidates: SegmentationCandidate[]) => void;
+  selectMaskCandidate: (index: number) => void;
+  setMaskPreviewVisible: (visible: boolean) => void;
+  setMultiObject: (enabled: boolean) => void;
+  setMaskRefine: (options: Partial<MaskRefineOptions>) => void;
+  setAutoRefine: (enabled: boolean) => void;
+  setIncludeEdges: (enabled: boolean) => void;
+  setEdgeRefine: (options: Partial<EdgeRefineOptions>) => void;
+  setTrimapBand: (width: number) => void;
+  setTrimapPreview: (visible: boolean) => void;
+  setBackgroundFill: (fill: BackgroundFill) => void;
+  setMagicCutServer: (enabled: boolean) => void;
+  setLabeledMasks: (masks: LabeledMask[]) => void;
+  setProcessing: (isProcessing: boolean, message?: string, abort?: AbortController) => void;
+  setProcessingProgress: (progress: number | null, message?: string) => void;
+  setJobs: (jobs: JobSnapshot[]) => void;
+  setAPIKeys: (keys: APIKeys) => void;
   
   // Layer actions
   addLayer: (layer: Partial<Layer>) => void;
+  addLayers: (layers: Partial<Layer>[]) => void;
+  addLayerBelow: (layer: Partial<Layer>, layerId: string) => void;
   removeLayer: (layerId: string) => void;
   updateLayer: (layerId: string, updates: Partial<Layer>) => void;
   setActiveLayer: (layerId: string) => void;
@@ -64,15 +125,49 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
   activeLayerId: null,
   selectedTool: 'select',
   brushSize: 10,
+  brushHardness: 0.5,
   currentMask: null,
   selection: null,
+  segmentationMode: 'sam',
+  floodFillTolerance: 30,
+  samStatus: 'idle',
+  maskCandidates: [],
+  activeCandidateIndex: null,
+  maskPreviewVisible: true,
+  maskRefine: {
+    grow: 3,
+    close: 2,
+    open: 1,
+    fillHoles: true,
+    minComponentArea: 64,
+    keepLargest: false
+  },
+  autoRefine: true,
+  includeEdges: true,
+  edgeRefine: { radius: 4, feather: 1 },
+  trimapBand: 10,
+  trimapPreview: false,
+  backgroundFill: { type: 'transparent' },
+  magicCutServer: false,
+  multiObject: false,
+  labeledMasks: [],
   isProcessing: false,
   processingMessage: '',
-  apiKeys: {},
+  processingProgress: null,
+  processingAbort: null,
+  jobs: [],
+  apiKeys: { localUrl: import.meta.env.VITE_LOCAL_PROVIDER_URL || undefined },
 
   // Actions
   setCurrentImage: (image) => {
-    set({ currentImage: image, originalImage: image });
+    set({
+      currentImage: image,
+      originalImage: image,
+      currentMask: null,
+      maskCandidates: [],
+      activeCandidateIndex: null,
+      labeledMasks: []
+    });
     if (image) {
       // Create initial layer
       const initialLayer: Layer = {
@@ -89,10 +184,40 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
   
   setSelectedTool: (tool) => set({ selectedTool: tool }),
   setBrushSize: (size) => set({ brushSize: size }),
+  setBrushHardness: (hardness) => set({ brushHardness: hardness }),
   setMask: (mask) => set({ currentMask: mask }),
   setSelection: (selection) => set({ selection }),
-  setProcessing: (isProcessing, message = '') => 
-    set({ isProcessing, processingMessage: message }),
+  setSegmentationMode: (mode) => set({ segmentationMode: mode }),
+  setFloodFillTolerance: (tolerance) => set({ floodFillTolerance: tolerance }),
+  setSAMStatus: (status) => set({ samStatus: status }),
+  setMaskCandidates: (candidates) => set({
+    maskCandidates: candidates,
+    activeCandidateIndex: candidates.length > 0 ? 0 : null,
+    currentMask: candidates[0]?.mask ?? null,
+    maskPreviewVisible: true
+  }),
+  selectMaskCandidate: (index) => {
+    const candidate = get().maskCandidates[index];
+    if (candidate) {
+      set({ activeCandidateIndex: index, currentMask: candidate.mask, maskPreviewVisible: true });
+    }
+  },
+  setMaskPreviewVisible: (visible) => set({ maskPreviewVisible: visible }),
+  setMultiObject: (enabled) => set({ multiObject: enabled }),
+  setMaskRefine: (options) => set({ maskRefine: { ...get().maskRefine, ...options } }),
+  setAutoRefine: (enabled) => set({ autoRefine: enabled }),
+  setIncludeEdges: (enabled) => set({ includeEdges: enabled }),
+  setEdgeRefine: (options) => set({ edgeRefine: { ...get().edgeRefine, ...options } }),
+  setTrimapBand: (width) => set({ trimapBand: width }),
+  setTrimapPreview: (visible) => set({ trimapPreview: visible }),
+  setBackgroundFill: (fill) => set({ backgroundFill: fill }),
+  setMagicCutServer: (enabled) => set({ magicCutServer: enabled }),
+  setLabeledMasks: (masks) => set({ labeledMasks: masks, maskPreviewVisible: true }),
+  setProcessing: (isProcessing, message = '', abort) => 
+    set({ isProcessing, processingMessage: message, processingProgress: null, processingAbort: abort ?? null }),
+  setProcessingProgress: (progress, message) =>
+    set({ processingProgress: progress, processingMessage: message ?? get().processingMessage }),
+  setJobs: (jobs) => set({ jobs }),
   setAPIKeys: (keys) => set({ apiKeys: { ...get().apiKeys, ...keys } }),
 
   // Layer actions
@@ -112,6 +237,39 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
     });
   },
 
+  addLayers: (layersData) => {
+    const { layers } = get();
+    const newLayers: Layer[] = layersData.map((layerData, i) => ({
+      id: crypto.randomUUID(),
+      name: `Layer ${layers.length + i + 1}`,
+      visible: true,
+      locked: false,
+      opacity: 100,
+      blendMode: 'normal',
+      ...layerData
+    }));
+    set({
+      layers: [...layers, ...newLayers],
+      activeLayerId: newLayers[newLayers.length - 1]?.id ?? get().activeLayerId
+    });
+  },
+
+  // Inserts under the given layer without changing the active layer
+  addLayerBelow: (layerData, layerId) => {
+    const { layers } = get();
+    const newLayer: Layer = {
+      id: crypto.randomUUID(),
+      name: `Layer ${layers.length + 1}`,
+      visible: true,
+      locked: false,
+      opacity: 100,
+      blendMode: 'normal',
+      ...layerData
+    };
+    const index = Math.max(0, layers.findIndex(l => l.id === layerId));
+    set({ layers: [...layers.slice(0, index), newLayer, ...layers.slice(index)] });
+  },
+
   removeLayer: (layerId) => {
     const { layers, activeLayerId } = get();
     const newLayers = layers.filter(l => l.id !== layerId);
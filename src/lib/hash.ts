@@ -0,0 +1,8 @@
+// SHA-256 content hash as lowercase hex
+export async function sha256Hex(input: string | BufferSource): Promise<string> {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,413 @@
+import { Mask, createMask, maskValue } from './mask';
+import { dilate } from './maskOps';
+
+export interface InpaintOptions {
+  // Patch side is 2 * patchRadius + 1 pixels
+  patchRadius?: number;
+  // Pixels added around the mask so soft object edges and shadows get replaced too
+  expand?: number;
+  // EM passes at full resolution; coarser levels run a few more
+  iterations?: number;
+}
+
+const DEFAULT_INPAINT_OPTIONS: Required<InpaintOptions> = {
+  patchRadius: 3,
+  expand: 3,
+  iterations: 3,
+};
+
+// Color difference (per channel, squared) at which a patch's vote weight drops to 1/e
+const VOTE_SIGMA_SQ = 2 * 15 * 15;
+
+// One pyramid level over the working crop; hole = 1 marks pixels to synthesize
+interface Level {
+  width: number;
+  height: number;
+  color: Float32Array;
+  hole: Uint8Array;
+}
+
+// Deterministic PRNG so the same input always gives the same fill
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Pixels that will be replaced: the mask cut at one half, grown by `expand`
+export const inpaintRegion = (mask: Mask, expand: number = DEFAULT_INPAINT_OPTIONS.expand): Mask => {
+  const data = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < data.length; i++) {
+    if (maskValue(mask, i) >= 0.5) data[i] = 255;
+  }
+  const hard = createMask(mask.width, mask.height, data);
+  return expand > 0 ? dilate(hard, expand) : hard;
+};
+
+// Half resolution; a coarse pixel is a hole if any of its children is
+const downsample = (level: Level): Level => {
+  const width = Math.ceil(level.width / 2);
+  const height = Math.ceil(level.height / 2);
+  const color = new Float32Array(width * height * 3);
+  const hole = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, known = 0, holes = 0;
+      for (let dy = 0; dy < 2; dy++) {
+        for (let dx = 0; dx < 2; dx++) {
+          const fx = x * 2 + dx;
+          const fy = y * 2 + dy;
+          if (fx >= level.width || fy >= level.height) continue;
+          const f = fy * level.width + fx;
+          if (level.hole[f]) {
+            holes++;
+            continue;
+          }
+          r += level.color[f * 3];
+          g += level.color[f * 3 + 1];
+          b += level.color[f * 3 + 2];
+          known++;
+        }
+      }
+      const i = y * width + x;
+      if (holes > 0) hole[i] = 1;
+      if (known > 0) {
+        color[i * 3] = r / known;
+        color[i * 3 + 1] = g / known;
+        color[i * 3 + 2] = b / known;
+      }
+    }
+  }
+
+  return { width, height, color, hole };
+};
+
+// Fills the hole ring by ring with the mean of already known neighbors; the coarsest level's first guess
+const onionFill = ({ width, height, color, hole }: Level) => {
+  const unknown = Uint8Array.from(hole);
+  let frontier: number[] = [];
+
+  do {
+    frontier = [];
+    for (let i = 0; i < unknown.length; i++) {
+      if (!unknown[i]) continue;
+      const x = i % width;
+      const y = (i - x) / width;
+      let r = 0, g = 0, b = 0, known = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (unknown[n]) continue;
+          r += color[n * 3];
+          g += color[n * 3 + 1];
+          b += color[n * 3 + 2];
+          known++;
+        }
+      }
+      if (known > 0) {
+        color[i * 3] = r / known;
+        color[i * 3 + 1] = g / known;
+        color[i * 3 + 2] = b / known;
+        frontier.push(i);
+      }
+    }
+    // Marked after the scan so each pass grows exactly one ring
+    frontier.forEach(i => (unknown[i] = 0));
+  } while (frontier.length > 0);
+};
+
+// Coarse hole colors copied down to the finer level's hole
+const upsampleInto = (coarse: Level, fine: Level) => {
+  for (let y = 0; y < fine.height; y++) {
+    for (let x = 0; x < fine.width; x++) {
+      const i = y * fine.width + x;
+      if (!fine.hole[i]) continue;
+      const c = (y >> 1) * coarse.width + (x >> 1);
+      fine.color[i * 3] = coarse.color[c * 3];
+      fine.color[i * 3 + 1] = coarse.color[c * 3 + 1];
+      fine.color[i * 3 + 2] = coarse.color[c * 3 + 2];
+    }
+  }
+};
+
+// Multi-scale PatchMatch synthesis (Wexler et al.): every patch overlapping the hole is matched to its
+// most similar fully known patch, then each hole pixel takes the weighted vote of all patches covering it
+class LevelSolver {
+  private readonly width: number;
+  private readonly height: number;
+  // Patch centers whose patch lies inside the level and contains no hole pixel
+  private readonly valid: Uint8Array;
+  private readonly sources: Int32Array;
+  // Patch centers whose patch overlaps the hole
+  readonly targets: Int32Array;
+  // Best source patch center per target (-1 for non-targets) and its distance
+  readonly nnf: Int32Array;
+  private readonly cost: Float32Array;
+
+  constructor(private readonly level: Level, private readonly radius: number, private readonly random: () => number) {
+    const { width, height, hole } = level;
+    this.width = width;
+    this.height = height;
+
+    const holeMask = createMask(width, height, Uint8Array.from(hole, h => h * 255));
+    const blocked = dilate(holeMask, radius).data;
+
+    this.valid = new Uint8Array(width * height);
+    const sources: number[] = [];
+    const targets: number[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (blocked[i]) {
+          targets.push(i);
+        } else if (x >= radius && y >= radius && x < width - radius && y < height - radius) {
+          this.valid[i] = 1;
+          sources.push(i);
+        }
+      }
+    }
+    this.sources = Int32Array.from(sources);
+    this.targets = Int32Array.from(targets);
+    this.nnf = new Int32Array(width * height).fill(-1);
+    this.cost = new Float32Array(width * height);
+  }
+
+  get hasSources(): boolean {
+    return this.sources.length > 0;
+  }
+
+  // Starts from the coarser level's matches where they are still valid, random sources elsewhere
+  initialize(coarser?: { nnf: Int32Array; width: number }) {
+    const { width } = this;
+    for (const t of this.targets) {
+      let s = -1;
+      if (coarser) {
+        const x = t % width;
+        const y = (t - x) / width;
+        const c = coarser.nnf[(y >> 1) * coarser.width + (x >> 1)];
+        if (c >= 0) {
+          const cx = c % coarser.width;
+          const cy = (c - cx) / coarser.width;
+          const candidate = (cy * 2 + (y & 1)) * width + cx * 2 + (x & 1);
+          if (candidate < this.valid.length && this.valid[candidate]) s = candidate;
+        }
+      }
+      this.nnf[t] = s >= 0 ? s : this.randomSource();
+    }
+  }
+
+  private randomSource(): number {
+    return this.sources[Math.floor(this.random() * this.sources.length)];
+  }
+
+  // Sum of squared color differences over the part of the target patch inside the level
+  private distance(t: number, s: number, limit: number): number {
+    const { width, height, radius } = this;
+    const { color } = this.level;
+    const tx = t % width;
+    const ty = (t - tx) / width;
+    let sum = 0;
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      const y = ty + dy;
+      if (y < 0 || y >= height) continue;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const x = tx + dx;
+        if (x < 0 || x >= width) continue;
+        const a = (y * width + x) * 3;
+        const b = (s + dy * width + dx) * 3;
+        const dr = color[a] - color[b];
+        const dg = color[a + 1] - color[b + 1];
+        const db = color[a + 2] - color[b + 2];
+        sum += dr * dr + dg * dg + db * db;
+      }
+      if (sum >= limit) return sum;
+    }
+    return sum;
+  }
+
+  private tryImprove(t: number, s: number) {
+    // Out of range or wrapped around a row: invalid centers never sit on the level border
+    if (s < 0 || s >= this.valid.length || !this.valid[s]) return;
+    const d = this.distance(t, s, this.cost[t]);
+    if (d < this.cost[t]) {
+      this.cost[t] = d;
+      this.nnf[t] = s;
+    }
+  }
+
+  // Alternating scan order propagation plus exponentially shrinking random search
+  patchMatch(passes: number) {
+    const { width, height, targets, nnf } = this;
+    for (const t of targets) {
+      this.cost[t] = this.distance(t, nnf[t], Infinity);
+    }
+
+    for (let pass = 0; pass < passes; pass++) {
+      const forward = pass % 2 === 0;
+      const step = forward ? 1 : -1;
+
+      for (let k = 0; k < targets.length; k++) {
+        const t = targets[forward ? k : targets.length - 1 - k];
+        const x = t % width;
+        const y = (t - x) / width;
+
+        // A neighbor's match, shifted back by the same offset, is a good guess for this patch
+        const left = x - step;
+        if (left >= 0 && left < width && nnf[t - step] >= 0) this.tryImprove(t, nnf[t - step] + step);
+        const up = y - step;
+        if (up >= 0 && up < height && nnf[t - step * width] >= 0) this.tryImprove(t, nnf[t - step * width] + step * width);
+
+        const best = nnf[t];
+        const bx = best % width;
+        const by = (best - bx) / width;
+        for (let radius = Math.max(width, height); radius >= 1; radius >>= 1) {
+          const rx = bx + Math.round((this.random() * 2 - 1) * radius);
+          const ry = by + Math.round((this.random() * 2 - 1) * radius);
+          if (rx >= 0 && ry >= 0 && rx < width && ry < height) this.tryImprove(t, ry * width + rx);
+        }
+      }
+    }
+  }
+
+  // Rebuilds the hole from the matched patches, each weighted by how well it fits
+  vote() {
+    const { width, height, radius, targets, nnf } = this;
+    const { color, hole } = this.level;
+    const patchValues = (2 * radius + 1) ** 2 * 3;
+    const sum = new Float32Array(width * height * 3);
+    const weights = new Float32Array(width * height);
+
+    for (const t of targets) {
+      const s = nnf[t];
+      const weight = Math.exp(-this.cost[t] / patchValues / VOTE_SIGMA_SQ) + 1e-6;
+      const tx = t % width;
+      const ty = (t - tx) / width;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const y = ty + dy;
+        if (y < 0 || y >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const x = tx + dx;
+          if (x < 0 || x >= width) continue;
+          const p = y * width + x;
+          if (!hole[p]) continue;
+          const q = (s + dy * width + dx) * 3;
+          sum[p * 3] += weight * color[q];
+          sum[p * 3 + 1] += weight * color[q + 1];
+          sum[p * 3 + 2] += weight * color[q + 2];
+          weights[p] += weight;
+        }
+      }
+    }
+
+    for (let p = 0; p < hole.length; p++) {
+      if (!hole[p] || weights[p] === 0) continue;
+      color[p * 3] = sum[p * 3] / weights[p];
+      color[p * 3 + 1] = sum[p * 3 + 1] / weights[p];
+      color[p * 3 + 2] = sum[p * 3 + 2] / weights[p];
+    }
+  }
+}
+
+// Fills the masked pixels from the surrounding texture; pixels outside the region keep their values.
+// onProgress is awaited between passes, so callers can use it to yield or cancel
+export const inpaint = async (
+  image: ImageData,
+  mask: Mask,
+  options: InpaintOptions = {},
+  onProgress?: (progress: number) => void | Promise<void>
+): Promise<ImageData> => {
+  const radius = Math.max(1, Math.round(options.patchRadius ?? DEFAULT_INPAINT_OPTIONS.patchRadius));
+  const iterations = Math.max(1, options.iterations ?? DEFAULT_INPAINT_OPTIONS.iterations);
+  const region = inpaintRegion(mask, options.expand ?? DEFAULT_INPAINT_OPTIONS.expand);
+  const result = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  if (region.area === 0) return result;
+
+  // Work on the hole plus a margin of context as wide as the hole itself
+  const patchSize = 2 * radius + 1;
+  const [bx, by, bw, bh] = region.bbox;
+  const margin = Math.max(3 * patchSize, Math.max(bw, bh));
+  const x0 = Math.max(0, bx - margin);
+  const y0 = Math.max(0, by - margin);
+  const x1 = Math.min(image.width, bx + bw + margin);
+  const y1 = Math.min(image.height, by + bh + margin);
+
+  const finest: Level = {
+    width: x1 - x0,
+    height: y1 - y0,
+    color: new Float32Array((x1 - x0) * (y1 - y0) * 3),
+    hole: new Uint8Array((x1 - x0) * (y1 - y0)),
+  };
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const src = y * image.width + x;
+      const dst = (y - y0) * finest.width + (x - x0);
+      finest.color[dst * 3] = image.data[src * 4];
+      finest.color[dst * 3 + 1] = image.data[src * 4 + 1];
+      finest.color[dst * 3 + 2] = image.data[src * 4 + 2];
+      finest.hole[dst] = region.data[src] ? 1 : 0;
+    }
+  }
+
+  // Halve until the hole is only a couple of patches across
+  const levels = [finest];
+  const maxLevels = Math.max(0, Math.floor(Math.log2(Math.max(bw, bh) / patchSize)));
+  while (levels.length <= maxLevels) {
+    const last = levels[levels.length - 1];
+    if (Math.min(last.width, last.height) / 2 < 4 * patchSize) break;
+    levels.push(downsample(last));
+  }
+
+  const coarsest = levels[levels.length - 1];
+  onionFill(coarsest);
+
+  const random = mulberry32(0x5eed);
+  const passesPerLevel = levels.map((_, l) => Math.min(iterations + l, 2 * iterations));
+  const totalPasses = passesPerLevel.reduce((a, b) => a + b, 0);
+  let done = 0;
+  let coarser: { nnf: Int32Array; width: number } | undefined;
+
+  for (let l = levels.length - 1; l >= 0; l--) {
+    const level = levels[l];
+    if (l < levels.length - 1) upsampleInto(levels[l + 1], level);
+
+    const solver = new LevelSolver(level, radius, random);
+    if (!solver.hasSources) {
+      // Nothing known to copy from at this scale; keep the smooth fill
+      onionFill(level);
+      done += passesPerLevel[l];
+      await onProgress?.(done / totalPasses);
+      coarser = undefined;
+      continue;
+    }
+
+    solver.initialize(coarser);
+    for (let pass = 0; pass < passesPerLevel[l]; pass++) {
+      solver.patchMatch(pass === 0 ? 4 : 2);
+      solver.vote();
+      await onProgress?.(++done / totalPasses);
+    }
+    coarser = { nnf: solver.nnf, width: level.width };
+  }
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const src = (y - y0) * finest.width + (x - x0);
+      if (!finest.hole[src]) continue;
+      const dst = (y * image.width + x) * 4;
+      result.data[dst] = finest.color[src * 3];
+      result.data[dst + 1] = finest.color[src * 3 + 1];
+      result.data[dst + 2] = finest.color[src * 3 + 2];
+      result.data[dst + 3] = 255;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,51 @@
+// Small least-recently-used cache on top of Map insertion order
+export class LRUCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(
+    private capacity: number,
+    private onEvict?: (key: K, value: V) => void
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+
+    // Re-insert to mark as most recently used
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    }
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.capacity) {
+      const [oldestKey, oldestValue] = this.entries.entries().next().value!;
+      this.entries.delete(oldestKey);
+      this.onEvict?.(oldestKey, oldestValue);
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    for (const [key, value] of this.entries) {
+      this.onEvict?.(key, value);
+    }
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,130 @@
+// Single-channel segmentation mask
+export interface Mask {
+  width: number;
+  height: number;
+  // One value per pixel: coverage 0-255 (Uint8Array) or foreground probability 0-1 (Float32Array)
+  data: Uint8Array | Float32Array;
+  // [x, y, width, height] of the foreground pixels
+  bbox: [number, number, number, number];
+  // Number of foreground pixels (value at or above one half)
+  area: number;
+}
+
+export type MaskColor = [number, number, number];
+
+// Magenta used for mask previews across the editor
+export const MASK_OVERLAY_COLOR: MaskColor = [255, 100, 255];
+
+const halfValue = (data: Mask['data']) => (data instanceof Float32Array ? 0.5 : 128);
+
+export const maskBounds = (data: Mask['data'], width: number): Pick<Mask, 'bbox' | 'area'> => {
+  const half = halfValue(data);
+  let area = 0;
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < half) continue;
+    area++;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+
+  return {
+    area,
+    bbox: area > 0 ? [minX, minY, maxX - minX + 1, maxY - minY + 1] : [0, 0, 0, 0],
+  };
+};
+
+export const createMask = (width: number, height: number, data: Mask['data']): Mask => {
+  if (data.length !== width * height) {
+    throw new Error(`Mask data has ${data.length} values, expected ${width * height}`);
+  }
+  return { width, height, data, ...maskBounds(data, width) };
+};
+
+export const emptyMask = (width: number, height: number): Mask =>
+  createMask(width, height, new Uint8Array(width * height));
+
+// Coverage of one pixel in [0, 1]
+export const maskValue = (mask: Mask, index: number): number =>
+  mask.data instanceof Float32Array ? mask.data[index] : mask.data[index] / 255;
+
+// Per-pixel coverage as 0-255 alpha values
+export const toAlphaMatte = (mask: Mask): Uint8Array => {
+  if (mask.data instanceof Uint8Array) return mask.data;
+
+  const alpha = new Uint8Array(mask.data.length);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = Math.round(Math.min(Math.max(mask.data[i], 0), 1) * 255);
+  }
+  return alpha;
+};
+
+// Hard mask with 255 where coverage reaches the threshold
+export const toBinaryMask = (mask: Mask, threshold = 0.5): Mask => {
+  const binary = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < binary.length; i++) {
+    if (maskValue(mask, i) >= threshold) binary[i] = 255;
+  }
+  return createMask(mask.width, mask.height, binary);
+};
+
+// Grayscale matte (white = foreground) for export and inpainting APIs
+export const toAlphaMatteImageData = (mask: Mask): ImageData => {
+  const alpha = toAlphaMatte(mask);
+  const image = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < alpha.length; i++) {
+    const idx = i * 4;
+    image.data[idx] = alpha[i];
+    image.data[idx + 1] = alpha[i];
+    image.data[idx + 2] = alpha[i];
+    image.data[idx + 3] = 255;
+  }
+  return image;
+};
+
+// Tinted, semi-transparent overlay for drawing the mask over the image
+export const toOverlayImageData = (mask: Mask, color: MaskColor = MASK_OVERLAY_COLOR, opacity = 180): ImageData => {
+  const alpha = toAlphaMatte(mask);
+  const image = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] === 0) continue;
+    const idx = i * 4;
+    image.data[idx] = color[0];
+    image.data[idx + 1] = color[1];
+    image.data[idx + 2] = color[2];
+    image.data[idx + 3] = Math.round((alpha[i] * opacity) / 255);
+  }
+  return image;
+};
+
+// Reads a mask from one channel of an RGBA image (alpha mattes or grayscale masks)
+export const maskFromImageData = (image: ImageData, channel: 'alpha' | 'luminance' = 'alpha'): Mask => {
+  const data = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const idx = i * 4;
+    data[i] = channel === 'alpha'
+      ? image.data[idx + 3]
+      : Math.round(0.299 * image.data[idx] + 0.587 * image.data[idx + 1] + 0.114 * image.data[idx + 2]);
+  }
+  return createMask(image.width, image.height, data);
+};
+
+// Nearest-neighbour resample, used to align masks made for a differently sized image
+export const resizeMask = (mask: Mask, width: number, height: number): Mask => {
+  if (mask.width === width && mask.height === height) return mask;
+
+  const data = mask.data instanceof Float32Array ? new Float32Array(width * height) : new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(mask.height - 1, Math.floor(((y + 0.5) * mask.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(mask.width - 1, Math.floor(((x + 0.5) * mask.width) / width));
+      data[y * width + x] = mask.data[sy * mask.width + sx];
+    }
+  }
+  return createMask(width, height, data);
+};
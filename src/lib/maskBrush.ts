@@ -0,0 +1,82 @@
+// Region touched by a brush operation, in mask pixels
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BrushOptions {
+  // Brush diameter in image pixels
+  size: number;
+  // 1 = hard edge, 0 = coverage falls off linearly from the center
+  hardness: number;
+  subtract: boolean;
+}
+
+// Paints one round dab into 0-255 coverage data; adding never lowers coverage and subtracting never raises it
+export const stampBrush = (
+  data: Uint8Array,
+  width: number,
+  height: number,
+  cx: number,
+  cy: number,
+  { size, hardness, subtract }: BrushOptions
+): DirtyRect | null => {
+  const radius = Math.max(size / 2, 0.5);
+  const inner = radius * Math.min(Math.max(hardness, 0), 1);
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+  const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+  if (x0 > x1 || y0 > y1) return null;
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const distance = Math.hypot(x - cx, y - cy);
+      if (distance > radius) continue;
+
+      const strength = distance <= inner ? 1 : 1 - (distance - inner) / (radius - inner);
+      const value = Math.round(strength * 255);
+      const i = y * width + x;
+      data[i] = subtract ? Math.min(data[i], 255 - value) : Math.max(data[i], value);
+    }
+  }
+
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+// Dabs spaced along a segment so fast pointer moves still leave a continuous stroke
+export const strokeBrush = (
+  data: Uint8Array,
+  width: number,
+  height: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: BrushOptions
+): DirtyRect | null => {
+  const spacing = Math.max(1, options.size / 4);
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  let dirty: DirtyRect | null = null;
+
+  for (let s = 1; s <= steps; s++) {
+    const t = s / steps;
+    const rect = stampBrush(data, width, height, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, options);
+    dirty = unionRects(dirty, rect);
+  }
+
+  return dirty;
+};
+
+export const unionRects = (a: DirtyRect | null, b: DirtyRect | null): DirtyRect | null => {
+  if (!a) return b;
+  if (!b) return a;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
@@ -0,0 +1,155 @@
+import { Mask, maskFromImageData, resizeMask } from './mask';
+import { RLE, decodeRLE } from './rle';
+import { imageToImageData, loadImage } from './maskLayers';
+
+// One object read from an imported file, already aligned to the target image
+export interface ImportedInstance {
+  label: string;
+  mask: Mask;
+}
+
+type Size = { width: number; height: number };
+
+interface CocoFile {
+  images: Array<{ id: number; file_name?: string; width: number; height: number }>;
+  annotations: Array<{
+    image_id: number;
+    category_id: number;
+    segmentation: RLE | number[][];
+  }>;
+  categories?: Array<{ id: number; name: string }>;
+}
+
+interface LabelMeFile {
+  imageWidth: number;
+  imageHeight: number;
+  shapes: Array<{
+    label: string;
+    points: number[][];
+    shape_type?: string;
+  }>;
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const readAsDataURL = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+// Draws shapes at source resolution, then reads the filled pixels back as a mask
+const rasterize = (size: Size, draw: (ctx: CanvasRenderingContext2D) => void): Mask => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  draw(ctx);
+  return maskFromImageData(ctx.getImageData(0, 0, size.width, size.height), 'alpha');
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: number[][]) => {
+  ctx.beginPath();
+  points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+  ctx.closePath();
+  ctx.fill();
+};
+
+// Transparent PNGs are alpha mattes; fully opaque ones are black/white masks
+const importMaskImage = async (file: File, target: Size): Promise<ImportedInstance[]> => {
+  const pixels = imageToImageData(await loadImage(await readAsDataURL(file)));
+
+  let hasTransparency = false;
+  for (let i = 3; i < pixels.data.length; i += 4) {
+    if (pixels.data[i] < 255) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  const mask = maskFromImageData(pixels, hasTransparency ? 'alpha' : 'luminance');
+  return [{ label: baseName(file.name), mask: resizeMask(mask, target.width, target.height) }];
+};
+
+const isCoco = (json: unknown): json is CocoFile =>
+  typeof json === 'object' && json !== null && Array.isArray((json as CocoFile).images) && Array.isArray((json as CocoFile).annotations);
+
+const isLabelMe = (json: unknown): json is LabelMeFile =>
+  typeof json === 'object' && json !== null && Array.isArray((json as LabelMeFile).shapes);
+
+const importCoco = (coco: CocoFile, target: Size): ImportedInstance[] => {
+  if (coco.images.length === 0) return [];
+
+  // Prefer the image with the same dimensions; datasets with many images only contribute that one
+  const image = coco.images.find(img => img.width === target.width && img.height === target.height) ?? coco.images[0];
+  const categories = new Map((coco.categories ?? []).map(c => [c.id, c.name]));
+
+  return coco.annotations
+    .filter(annotation => annotation.image_id === image.id)
+    .map(({ category_id, segmentation }) => {
+      const mask = Array.isArray(segmentation)
+        ? rasterize(image, ctx => segmentation.forEach(polygon => {
+            const points: number[][] = [];
+            for (let i = 0; i + 1 < polygon.length; i += 2) points.push([polygon[i], polygon[i + 1]]);
+            tracePolygon(ctx, points);
+          }))
+        : decodeRLE(segmentation);
+
+      return {
+        label: categories.get(category_id) ?? `Category ${category_id}`,
+        mask: resizeMask(mask, target.width, target.height),
+      };
+    });
+};
+
+const importLabelMe = (labelMe: LabelMeFile, target: Size): ImportedInstance[] => {
+  const size = { width: labelMe.imageWidth || target.width, height: labelMe.imageHeight || target.height };
+
+  return labelMe.shapes.flatMap(({ label, points, shape_type = 'polygon' }) => {
+    let mask: Mask;
+    switch (shape_type) {
+      case 'polygon':
+        mask = rasterize(size, ctx => tracePolygon(ctx, points));
+        break;
+      case 'rectangle': {
+        const [[x1, y1], [x2, y2]] = points;
+        mask = rasterize(size, ctx => ctx.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1)));
+        break;
+      }
+      case 'circle': {
+        const [[cx, cy], [px, py]] = points;
+        mask = rasterize(size, ctx => {
+          ctx.beginPath();
+          ctx.arc(cx, cy, Math.hypot(px - cx, py - cy), 0, Math.PI * 2);
+          ctx.fill();
+        });
+        break;
+      }
+      default:
+        // Lines and points have no area
+        return [];
+    }
+    return [{ label, mask: resizeMask(mask, target.width, target.height) }];
+  });
+};
+
+// PNG mattes/masks, COCO instances JSON or LabelMe JSON
+export const importMaskFile = async (file: File, target: Size): Promise<ImportedInstance[]> => {
+  if (file.type.startsWith('image/')) {
+    return importMaskImage(file, target);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not an image or a JSON file`);
+  }
+
+  if (isCoco(json)) return importCoco(json, target);
+  if (isLabelMe(json)) return importLabelMe(json, target);
+  throw new Error(`${file.name} is neither COCO nor LabelMe JSON`);
+};
@@ -0,0 +1,72 @@
+import type { Layer } from './editorStore';
+import { Mask, toAlphaMatte } from './mask';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new window.Image();
+    // Provider results are remote URLs; without CORS their pixels could not be read back
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+
+// Copy of the image with its alpha scaled by the mask coverage (or its inverse)
+const maskedImage = (image: HTMLImageElement, mask: Mask, invert: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, image.width, image.height);
+  const coverage = toAlphaMatte(mask);
+  for (let i = 0; i < coverage.length; i++) {
+    const alpha = invert ? 255 - coverage[i] : coverage[i];
+    imageData.data[i * 4 + 3] = Math.round((imageData.data[i * 4 + 3] * alpha) / 255);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return { thumbnail: canvas.toDataURL(), imageData };
+};
+
+// Cuts the image into the masked object and everything else
+export const splitImageByMask = (
+  image: HTMLImageElement,
+  mask: Mask
+): { selected: Partial<Layer>; unselected: Partial<Layer> } => ({
+  selected: { name: 'Selected Object', kind: 'segment', ...maskedImage(image, mask, false) },
+  unselected: { name: 'Background (Unselected)', ...maskedImage(image, mask, true) }
+});
+
+// Layer holding only the masked pixels of the image
+export const cutoutLayer = (image: HTMLImageElement, mask: Mask, name: string): Partial<Layer> => ({
+  name,
+  ...maskedImage(image, mask, false)
+});
+
+// Replaces a layer's alpha with the mask coverage, keeping its own pixels
+export const applyMaskToLayer = (imageData: ImageData, mask: Mask): Pick<Layer, 'imageData' | 'thumbnail'> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d')!;
+
+  const result = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+  const coverage = toAlphaMatte(mask);
+  for (let i = 0; i < coverage.length; i++) {
+    result.data[i * 4 + 3] = coverage[i];
+  }
+  ctx.putImageData(result, 0, 0);
+
+  return { imageData: result, thumbnail: canvas.toDataURL() };
+};
+
+export const imageToImageData = (image: HTMLImageElement): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+};
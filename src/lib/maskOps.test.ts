@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { createMask, Mask } from './mask';
+import {
+  close,
+  dilate,
+  erode,
+  fillHoles,
+  grow,
+  keepLargestComponent,
+  open,
+  refineMask,
+  removeSmallComponents
+} from './maskOps';
+
+// Masks written as rows of '#' (foreground) and '.' (background)
+const parse = (rows: string[]): Mask =>
+  createMask(rows[0].length, rows.length, Uint8Array.from(rows.join(''), c => (c === '#' ? 255 : 0)));
+
+const draw = (mask: Mask): string[] =>
+  Array.from({ length: mask.height }, (_, y) =>
+    Array.from(mask.data.slice(y * mask.width, (y + 1) * mask.width), v => (v >= 128 ? '#' : '.')).join('')
+  );
+
+describe('dilate / erode', () => {
+  it('grows a pixel into a square of side 2r + 1', () => {
+    expect(draw(dilate(parse([
+      '.....',
+      '.....',
+      '..#..',
+      '.....',
+      '.....',
+    ]), 1))).toEqual([
+      '.....',
+      '.###.',
+      '.###.',
+      '.###.',
+      '.....',
+    ]);
+  });
+
+  it('shrinks a square and ignores pixels outside the image', () => {
+    // The block touches the border, which must not erode it from that side
+    expect(draw(erode(parse([
+      '###..',
+      '###..',
+      '###..',
+      '.....',
+    ]), 1))).toEqual([
+      '##...',
+      '##...',
+      '.....',
+      '.....',
+    ]);
+  });
+
+  it('leaves the mask unchanged at radius 0', () => {
+    const mask = parse(['#.', '.#']);
+    expect(draw(dilate(mask, 0))).toEqual(draw(mask));
+    expect(draw(erode(mask, 0))).toEqual(draw(mask));
+  });
+
+  it('cuts soft masks at one half', () => {
+    const soft = createMask(3, 1, Float32Array.from([0.2, 0.6, 0.49]));
+    expect(draw(dilate(soft, 0))).toEqual(['.#.']);
+  });
+
+  it('grows for positive and shrinks for negative offsets', () => {
+    const mask = parse(['.....', '.###.', '.###.', '.###.', '.....']);
+    expect(grow(mask, 1).area).toBe(25);
+    expect(grow(mask, -1).area).toBe(1);
+  });
+});
+
+describe('open / close', () => {
+  it('opening removes specks but keeps larger shapes', () => {
+    expect(draw(open(parse([
+      '#.....',
+      '..###.',
+      '..###.',
+      '..###.',
+    ]), 1))).toEqual([
+      '......',
+      '..###.',
+      '..###.',
+      '..###.',
+    ]);
+  });
+
+  it('closing bridges a one pixel gap', () => {
+    expect(draw(close(parse([
+      '.........',
+      '.........',
+      '..##.##..',
+      '..##.##..',
+      '.........',
+      '.........',
+    ]), 1))).toEqual([
+      '.........',
+      '.........',
+      '..#####..',
+      '..#####..',
+      '.........',
+      '.........',
+    ]);
+  });
+});
+
+describe('connected components', () => {
+  it('fills enclosed holes but not background touching the border', () => {
+    expect(draw(fillHoles(parse([
+      '#####.',
+      '#..#..',
+      '#####.',
+      '......',
+    ])))).toEqual([
+      '#####.',
+      '####..',
+      '#####.',
+      '......',
+    ]);
+  });
+
+  it('treats diagonal neighbours as separate components', () => {
+    const mask = parse([
+      '##..',
+      '##..',
+      '..#.',
+      '....',
+    ]);
+    expect(draw(removeSmallComponents(mask, 2))).toEqual([
+      '##..',
+      '##..',
+      '....',
+      '....',
+    ]);
+    expect(draw(keepLargestComponent(mask))).toEqual(draw(removeSmallComponents(mask, 2)));
+  });
+
+  it('keeps the only component and handles empty masks', () => {
+    expect(keepLargestComponent(parse(['.#.'])).area).toBe(1);
+    expect(keepLargestComponent(parse(['...'])).area).toBe(0);
+    expect(fillHoles(parse(['...'])).area).toBe(0);
+  });
+});
+
+describe('refineMask', () => {
+  it('returns the mask itself when no step is enabled', () => {
+    const soft = createMask(2, 1, Float32Array.from([0.3, 0.7]));
+    expect(refineMask(soft, {})).toBe(soft);
+    expect(refineMask(soft, { grow: 0, fillHoles: false })).toBe(soft);
+  });
+
+  it('runs the enabled steps in order', () => {
+    const mask = parse([
+      '#......',
+      '.#####.',
+      '.#...#.',
+      '.#####.',
+      '.......',
+    ]);
+    // Hole filled, then the stray pixel dropped, then everything grown by one
+    expect(draw(refineMask(mask, { fillHoles: true, minComponentArea: 2, grow: 1 }))).toEqual([
+      '#######',
+      '#######',
+      '#######',
+      '#######',
+      '#######',
+    ]);
+    expect(draw(refineMask(mask, { fillHoles: true, keepLargest: true }))).toEqual([
+      '.......',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.......',
+    ]);
+  });
+});
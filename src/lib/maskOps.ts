@@ -0,0 +1,189 @@
+import { Mask, createMask, maskValue } from './mask';
+
+// Post-processing applied to a segmentation result, in the order listed
+export interface MaskRefineOptions {
+  // Closing radius in pixels: bridges small gaps and notches
+  close?: number;
+  // Opening radius in pixels: removes specks and thin spurs
+  open?: number;
+  fillHoles?: boolean;
+  // Connected pieces smaller than this many pixels are dropped
+  minComponentArea?: number;
+  keepLargest?: boolean;
+  // Signed edge offset in pixels: positive grows, negative shrinks
+  grow?: number;
+}
+
+// Morphology works on hard masks; soft masks are cut at one half
+const toBinary = (mask: Mask): Uint8Array => {
+  const binary = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < binary.length; i++) {
+    if (maskValue(mask, i) >= 0.5) binary[i] = 1;
+  }
+  return binary;
+};
+
+const fromBinary = (binary: Uint8Array, width: number, height: number): Mask => {
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    if (binary[i]) data[i] = 255;
+  }
+  return createMask(width, height, data);
+};
+
+// Sliding window max (dilate) or min (erode) along rows or columns; pixels outside the image are ignored
+const slidingPass = (
+  src: Uint8Array,
+  dst: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean,
+  dilate: boolean
+) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const stride = horizontal ? 1 : width;
+
+  for (let line = 0; line < lines; line++) {
+    const base = horizontal ? line * width : line;
+    // Count of set pixels inside the current window
+    let count = 0;
+    for (let k = 0; k < Math.min(radius, length); k++) count += src[base + k * stride];
+
+    for (let k = 0; k < length; k++) {
+      const enter = k + radius;
+      const leave = k - radius - 1;
+      if (enter < length) count += src[base + enter * stride];
+      if (leave >= 0) count -= src[base + leave * stride];
+
+      const windowSize = Math.min(enter, length - 1) - Math.max(k - radius, 0) + 1;
+      dst[base + k * stride] = dilate ? (count > 0 ? 1 : 0) : (count === windowSize ? 1 : 0);
+    }
+  }
+};
+
+// Square structuring element of side 2 * radius + 1, done as two separable passes
+const morph = (binary: Uint8Array, width: number, height: number, radius: number, dilate: boolean) => {
+  if (radius <= 0) return binary;
+  const tmp = new Uint8Array(binary.length);
+  const out = new Uint8Array(binary.length);
+  slidingPass(binary, tmp, width, height, radius, true, dilate);
+  slidingPass(tmp, out, width, height, radius, false, dilate);
+  return out;
+};
+
+export const dilate = (mask: Mask, radius: number): Mask =>
+  fromBinary(morph(toBinary(mask), mask.width, mask.height, Math.round(radius), true), mask.width, mask.height);
+
+export const erode = (mask: Mask, radius: number): Mask =>
+  fromBinary(morph(toBinary(mask), mask.width, mask.height, Math.round(radius), false), mask.width, mask.height);
+
+export const grow = (mask: Mask, pixels: number): Mask =>
+  pixels >= 0 ? dilate(mask, pixels) : erode(mask, -pixels);
+
+export const open = (mask: Mask, radius: number): Mask => dilate(erode(mask, radius), radius);
+
+export const close = (mask: Mask, radius: number): Mask => erode(dilate(mask, radius), radius);
+
+// 4-connected component labels (0 = background) and the size of each label
+const labelComponents = (binary: Uint8Array, width: number, height: number, value: 0 | 1) => {
+  const total = width * height;
+  const labels = new Int32Array(total);
+  const sizes = [0];
+  const stack = new Int32Array(total);
+
+  for (let seed = 0; seed < total; seed++) {
+    if (binary[seed] !== value || labels[seed]) continue;
+
+    const label = sizes.length;
+    let size = 0;
+    let top = 0;
+    const visit = (n: number) => {
+      if (binary[n] === value && !labels[n]) {
+        labels[n] = label;
+        stack[top++] = n;
+      }
+    };
+    visit(seed);
+
+    while (top > 0) {
+      const p = stack[--top];
+      size++;
+      const x = p % width;
+      if (x + 1 < width) visit(p + 1);
+      if (x > 0) visit(p - 1);
+      if (p + width < total) visit(p + width);
+      if (p >= width) visit(p - width);
+    }
+    sizes.push(size);
+  }
+
+  return { labels, sizes };
+};
+
+// Background regions that do not reach the image border become foreground
+export const fillHoles = (mask: Mask): Mask => {
+  const { width, height } = mask;
+  const binary = toBinary(mask);
+  const { labels } = labelComponents(binary, width, height, 0);
+
+  const outside = new Set<number>();
+  for (let x = 0; x < width; x++) {
+    outside.add(labels[x]);
+    outside.add(labels[(height - 1) * width + x]);
+  }
+  for (let y = 0; y < height; y++) {
+    outside.add(labels[y * width]);
+    outside.add(labels[y * width + width - 1]);
+  }
+
+  for (let i = 0; i < binary.length; i++) {
+    if (!binary[i] && !outside.has(labels[i])) binary[i] = 1;
+  }
+  return fromBinary(binary, width, height);
+};
+
+export const removeSmallComponents = (mask: Mask, minArea: number): Mask => {
+  const { width, height } = mask;
+  const binary = toBinary(mask);
+  const { labels, sizes } = labelComponents(binary, width, height, 1);
+
+  for (let i = 0; i < binary.length; i++) {
+    if (binary[i] && sizes[labels[i]] < minArea) binary[i] = 0;
+  }
+  return fromBinary(binary, width, height);
+};
+
+export const keepLargestComponent = (mask: Mask): Mask => {
+  const { width, height } = mask;
+  const binary = toBinary(mask);
+  const { labels, sizes } = labelComponents(binary, width, height, 1);
+  if (sizes.length <= 2) return fromBinary(binary, width, height);
+
+  let largest = 1;
+  for (let label = 2; label < sizes.length; label++) {
+    if (sizes[label] > sizes[largest]) largest = label;
+  }
+  for (let i = 0; i < binary.length; i++) {
+    if (labels[i] !== largest) binary[i] = 0;
+  }
+  return fromBinary(binary, width, height);
+};
+
+export const hasRefinement = ({ close: c, open: o, fillHoles: f, minComponentArea, keepLargest, grow: g }: MaskRefineOptions) =>
+  Boolean(c || o || f || minComponentArea || keepLargest || g);
+
+// Runs the enabled steps; masks without any step enabled are returned untouched (soft edges kept)
+export const refineMask = (mask: Mask, options: MaskRefineOptions): Mask => {
+  if (!hasRefinement(options)) return mask;
+
+  let result = mask;
+  if (options.close) result = close(result, options.close);
+  if (options.open) result = open(result, options.open);
+  if (options.fillHoles) result = fillHoles(result);
+  if (options.minComponentArea) result = removeSmallComponents(result, options.minComponentArea);
+  if (options.keepLargest) result = keepLargestComponent(result);
+  if (options.grow) result = grow(result, options.grow);
+  return result;
+};
@@ -0,0 +1,66 @@
+import type { AIService, GenerationSettings, PredictionRunOptions } from '@/services/aiService';
+import { requireModel } from '@/services/providers/registry';
+import type { ModelLimits } from '@/services/providers/types';
+import { Mask, toAlphaMatteImageData } from './mask';
+import { loadImage } from './maskLayers';
+
+// Diffusion inpainting models work on sides that are multiples of 8 and degrade far above ~1 megapixel
+const DEFAULT_LIMITS: ModelLimits = { maxWidth: 1024, maxHeight: 1024, sizeMultiple: 8 };
+
+const providerSize = (width: number, height: number, { maxWidth, maxHeight, sizeMultiple }: ModelLimits) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(sizeMultiple, Math.floor((width * scale) / sizeMultiple) * sizeMultiple),
+    height: Math.max(sizeMultiple, Math.floor((height * scale) / sizeMultiple) * sizeMultiple),
+  };
+};
+
+const toDataURL = (source: CanvasImageSource, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+const maskCanvas = (mask: Mask): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  canvas.getContext('2d')!.putImageData(toAlphaMatteImageData(mask), 0, 0);
+  return canvas;
+};
+
+// Sends the image and a white-on-black mask scaled to the same provider-friendly size, and returns
+// the result resampled back to the image size
+export const inpaintWithProvider = async (
+  service: AIService,
+  image: HTMLImageElement,
+  region: Mask,
+  prompt: string,
+  settings: GenerationSettings,
+  negativePrompt = '',
+  options: PredictionRunOptions = {}
+): Promise<ImageData> => {
+  if (region.width !== image.width || region.height !== image.height) {
+    throw new Error('Mask and image sizes differ');
+  }
+
+  const size = providerSize(image.width, image.height, requireModel(settings.model, 'inpaint').limits ?? DEFAULT_LIMITS);
+  const resultUrl = await service.inpaintImage(
+    toDataURL(image, size.width, size.height),
+    toDataURL(maskCanvas(region), size.width, size.height),
+    prompt,
+    { ...settings, ...size },
+    negativePrompt,
+    options
+  );
+  const result = await loadImage(resultUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(result, 0, 0, image.width, image.height);
+  return ctx.getImageData(0, 0, image.width, image.height);
+};
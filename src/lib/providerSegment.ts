@@ -0,0 +1,16 @@
+import type { AIService } from '@/services/aiService';
+import type { LocalSegmentPrompt } from '@/services/providers/localProvider';
+import { Mask, maskFromImageData, resizeMask } from './mask';
+import { imageToImageData, loadImage } from './maskLayers';
+
+// Asks the self-hosted server for a mask of the image and reads it back at the image size;
+// aborting the signal cancels the request with CancelledError
+export const segmentWithProvider = async (
+  service: AIService,
+  image: HTMLImageElement,
+  prompt: LocalSegmentPrompt = {},
+  signal?: AbortSignal
+): Promise<Mask> => {
+  const maskImage = await loadImage(await service.segmentImage(image.src, prompt, undefined, { signal }));
+  return resizeMask(maskFromImageData(imageToImageData(maskImage), 'luminance'), image.width, image.height);
+};
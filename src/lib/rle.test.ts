@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { createMask, emptyMask } from './mask';
+import {
+  compressCounts,
+  compressRLE,
+  decodeRLE,
+  decompressCounts,
+  encodeRLE,
+  rleArea,
+  rleToBBox
+} from './rle';
+
+// Row-major mask from rows of 0/1
+const maskFrom = (rows: number[][]) =>
+  createMask(rows[0].length, rows.length, Uint8Array.from(rows.flat(), v => v * 255));
+
+const fullMask = (width: number, height: number) =>
+  createMask(width, height, new Uint8Array(width * height).fill(255));
+
+const singlePixel = (width: number, height: number, x: number, y: number) => {
+  const data = new Uint8Array(width * height);
+  data[y * width + x] = 255;
+  return createMask(width, height, data);
+};
+
+describe('encodeRLE / decodeRLE', () => {
+  it('walks the mask column by column, starting with background', () => {
+    const rle = encodeRLE(maskFrom([
+      [0, 1, 1],
+      [0, 1, 0],
+    ]));
+    expect(rle).toEqual({ size: [2, 3], counts: [2, 3, 1] });
+  });
+
+  it('round-trips masks of different shapes', () => {
+    const masks = [
+      maskFrom([[1]]),
+      maskFrom([[0, 1, 0, 1], [1, 0, 1, 0], [1, 1, 0, 0]]),
+      emptyMask(5, 4),
+      fullMask(4, 5),
+      singlePixel(7, 3, 6, 2),
+    ];
+    for (const mask of masks) {
+      const decoded = decodeRLE(encodeRLE(mask));
+      expect(decoded.width).toBe(mask.width);
+      expect(decoded.height).toBe(mask.height);
+      expect(Array.from(decoded.data)).toEqual(Array.from(mask.data));
+    }
+  });
+
+  it('round-trips through the compressed string form', () => {
+    const data = new Uint8Array(37 * 23);
+    // Deterministic scatter of foreground pixels with runs of varied length
+    for (let i = 0; i < data.length; i++) data[i] = (i * 7919) % 13 < 5 ? 255 : 0;
+    const mask = createMask(37, 23, data);
+
+    const decoded = decodeRLE(compressRLE(encodeRLE(mask)));
+    expect(Array.from(decoded.data)).toEqual(Array.from(mask.data));
+  });
+
+  it('rejects counts that do not cover the mask exactly', () => {
+    expect(() => decodeRLE({ size: [2, 2], counts: [1, 2] })).toThrow();
+    expect(() => decodeRLE({ size: [2, 2], counts: [3, 2] })).toThrow();
+  });
+});
+
+describe('compressCounts / decompressCounts', () => {
+  // Strings as produced by pycocotools' rleToString for the same counts
+  const KNOWN: [number[], string][] = [
+    [[100], 'T3'],
+    [[0, 4], '04'],
+    [[5, 3, 2, 4, 1], '5321O'],
+    [[1000], 'Xo0'],
+  ];
+
+  it.each(KNOWN)('encodes %j as %s', (counts, encoded) => {
+    expect(compressCounts(counts)).toBe(encoded);
+  });
+
+  it.each(KNOWN)('decodes %j from %s', (counts, encoded) => {
+    expect(decompressCounts(encoded)).toEqual(counts);
+  });
+
+  it('round-trips large runs and negative deltas', () => {
+    const counts = [0, 5_000_000, 3, 1, 70_000, 2, 123_456_789, 0, 17];
+    expect(decompressCounts(compressCounts(counts))).toEqual(counts);
+  });
+
+  it('rejects a truncated string', () => {
+    expect(() => decompressCounts('X')).toThrow('Truncated');
+  });
+});
+
+describe('rleArea / rleToBBox', () => {
+  it('reports nothing for an empty mask', () => {
+    const rle = encodeRLE(emptyMask(6, 4));
+    expect(rleArea(rle)).toBe(0);
+    expect(rleToBBox(rle)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('covers the whole image for a full mask', () => {
+    const rle = encodeRLE(fullMask(6, 4));
+    expect(rleArea(rle)).toBe(24);
+    expect(rleToBBox(rle)).toEqual([0, 0, 6, 4]);
+  });
+
+  it('finds a single pixel', () => {
+    const rle = encodeRLE(singlePixel(6, 4, 3, 2));
+    expect(rleArea(rle)).toBe(1);
+    expect(rleToBBox(rle)).toEqual([3, 2, 1, 1]);
+  });
+
+  it('matches the mask bounds for compressed input', () => {
+    const mask = maskFrom([
+      [0, 0, 0, 0],
+      [0, 1, 1, 0],
+      [0, 0, 1, 0],
+    ]);
+    const rle = compressRLE(encodeRLE(mask));
+    expect(rleArea(rle)).toBe(mask.area);
+    expect(rleToBBox(rle)).toEqual(mask.bbox);
+  });
+});
@@ -0,0 +1,207 @@
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { Mask, createMask, maskValue } from './mask';
+
+// COCO run-length encoding. Runs alternate background/foreground, start with background
+// and walk the mask in column-major (Fortran) order, matching pycocotools.
+export interface UncompressedRLE {
+  // [height, width]
+  size: [number, number];
+  counts: number[];
+}
+
+export interface CompressedRLE {
+  size: [number, number];
+  counts: string;
+}
+
+export type RLE = UncompressedRLE | CompressedRLE;
+
+// [x, y, width, height] as in COCO annotations
+export type BBox = [number, number, number, number];
+
+export const encodeRLE = (mask: Mask, threshold = 0.5): UncompressedRLE => {
+  const { width, height } = mask;
+  const counts: number[] = [];
+  let current = 0;
+  let run = 0;
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const value = maskValue(mask, y * width + x) >= threshold ? 1 : 0;
+      if (value !== current) {
+        counts.push(run);
+        current = value;
+        run = 0;
+      }
+      run++;
+    }
+  }
+  counts.push(run);
+
+  return { size: [height, width], counts };
+};
+
+// pycocotools string format: deltas against the run two back, 5 bits per char with a continuation flag
+export const compressCounts = (counts: number[]): string => {
+  let s = '';
+  for (let i = 0; i < counts.length; i++) {
+    let x = counts[i];
+    if (i > 2) x -= counts[i - 2];
+
+    let more = true;
+    while (more) {
+      let c = x & 0x1f;
+      x >>= 5;
+      more = c & 0x10 ? x !== -1 : x !== 0;
+      if (more) c |= 0x20;
+      s += String.fromCharCode(c + 48);
+    }
+  }
+  return s;
+};
+
+export const decompressCounts = (s: string): number[] => {
+  const counts: number[] = [];
+  let p = 0;
+
+  while (p < s.length) {
+    let x = 0;
+    let k = 0;
+    let more = true;
+    while (more) {
+      if (p >= s.length) {
+        throw new Error('Truncated RLE counts string');
+      }
+      const c = s.charCodeAt(p) - 48;
+      // Multiplication instead of shifts: 32-bit shifts overflow past 6 chunks
+      x += (c & 0x1f) * 2 ** (5 * k);
+      more = (c & 0x20) !== 0;
+      p++;
+      k++;
+      if (!more && c & 0x10) x -= 2 ** (5 * k);
+    }
+    if (counts.length > 2) x += counts[counts.length - 2];
+    counts.push(x);
+  }
+
+  return counts;
+};
+
+export const compressRLE = (rle: RLE): CompressedRLE =>
+  typeof rle.counts === 'string'
+    ? (rle as CompressedRLE)
+    : { size: rle.size, counts: compressCounts(rle.counts) };
+
+export const decompressRLE = (rle: RLE): UncompressedRLE =>
+  typeof rle.counts === 'string'
+    ? { size: rle.size, counts: decompressCounts(rle.counts) }
+    : (rle as UncompressedRLE);
+
+export const decodeRLE = (rle: RLE): Mask => {
+  const { size: [height, width], counts } = decompressRLE(rle);
+  const total = width * height;
+  const data = new Uint8Array(total);
+  let position = 0;
+
+  for (let i = 0; i < counts.length; i++) {
+    const end = position + counts[i];
+    if (end > total) {
+      throw new Error(`RLE counts exceed mask size ${width}x${height}`);
+    }
+    if (i % 2 === 1) {
+      for (let j = position; j < end; j++) {
+        const y = j % height;
+        const x = (j - y) / height;
+        data[y * width + x] = 255;
+      }
+    }
+    position = end;
+  }
+
+  if (position !== total) {
+    throw new Error(`RLE counts cover ${position} pixels, expected ${total}`);
+  }
+
+  return createMask(width, height, data);
+};
+
+export const rleArea = (rle: RLE): number => {
+  const { counts } = decompressRLE(rle);
+  let area = 0;
+  for (let i = 1; i < counts.length; i += 2) area += counts[i];
+  return area;
+};
+
+// Same result as pycocotools rleToBbox
+export const rleToBBox = (rle: RLE): BBox => {
+  const { size: [height], counts } = decompressRLE(rle);
+  let position = 0;
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+
+  for (let i = 0; i < counts.length; i++) {
+    const start = position;
+    position += counts[i];
+    if (i % 2 === 0 || counts[i] === 0) continue;
+
+    const end = position - 1;
+    const x0 = Math.floor(start / height);
+    const x1 = Math.floor(end / height);
+    minX = Math.min(minX, x0);
+    maxX = Math.max(maxX, x1);
+    // A run that wraps into the next column covers the full height
+    if (x0 === x1) {
+      minY = Math.min(minY, start % height);
+      maxY = Math.max(maxY, end % height);
+    } else {
+      minY = 0;
+      maxY = height - 1;
+    }
+  }
+
+  return maxX < 0 ? [0, 0, 0, 0] : [minX, minY, maxX - minX + 1, maxY - minY + 1];
+};
+
+// COCO annotation fields for one mask
+export const maskToCoco = (mask: Mask, threshold = 0.5) => {
+  const rle = encodeRLE(mask, threshold);
+  return {
+    segmentation: compressRLE(rle),
+    area: rleArea(rle),
+    bbox: rleToBBox(rle),
+  };
+};
+
+// Row for the masks table; rle_data holds the compressed COCO RLE
+export const toMaskInsert = (
+  mask: Mask,
+  projectId: string,
+  extra: Partial<TablesInsert<'masks'>> = {}
+): TablesInsert<'masks'> => {
+  const { segmentation, area, bbox } = maskToCoco(mask);
+  return {
+    project_id: projectId,
+    format: 'coco_rle',
+    rle_data: segmentation as unknown as Json,
+    area,
+    bbox,
+    ...extra,
+  };
+};
+
+// Row for sam2_segmentations; mask_data holds the compressed COCO RLE
+export const toSegmentationInsert = (
+  mask: Mask,
+  segmentationIndex: number,
+  confidenceScore: number | null,
+  extra: Partial<TablesInsert<'sam2_segmentations'>> = {}
+): TablesInsert<'sam2_segmentations'> => {
+  const { segmentation, area, bbox } = maskToCoco(mask);
+  return {
+    mask_data: segmentation as unknown as Json,
+    area_pixels: area,
+    bounding_box: bbox,
+    confidence_score: confidenceScore,
+    segmentation_index: segmentationIndex,
+    ...extra,
+  };
+};
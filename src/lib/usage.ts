@@ -0,0 +1,96 @@
+import type { PredictionRecord } from '@/services/aiService';
+import type { ProviderId } from '@/services/providers/types';
+
+export interface DayUsage {
+  // Local date, YYYY-MM-DD
+  date: string;
+  costCents: number;
+  // Cost split by provider, for stacked charts
+  byProvider: Partial<Record<ProviderId, number>>;
+  runs: number;
+}
+
+export interface ModelUsage {
+  modelId: string;
+  provider: ProviderId;
+  // Provider-side versions seen for the model, newest last
+  modelVersions: string[];
+  costCents: number;
+  runs: number;
+  failed: number;
+  // Over finished runs only; null when none finished
+  avgLatencyMs: number | null;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+// Midnight, local time, `days - 1` days before today, so the range covers `days` calendar days
+export const startOfRange = (days: number, now = new Date()) =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+
+// Failed and cancelled runs carry no cost; running ones count at their estimate, since they are already being paid for
+export const totalCostCents = (records: PredictionRecord[]) =>
+  records.reduce((sum, record) => sum + (record.costCents ?? 0), 0);
+
+// One entry per calendar day in the range, including days without runs
+export const usageByDay = (records: PredictionRecord[], days: number, now = new Date()): DayUsage[] => {
+  const start = startOfRange(days, now);
+  const usage = new Map<string, DayUsage>();
+  for (let i = 0; i < days; i++) {
+    const date = dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+    usage.set(date, { date, costCents: 0, byProvider: {}, runs: 0 });
+  }
+
+  for (const record of records) {
+    const day = usage.get(dayKey(new Date(record.createdAt)));
+    if (!day) continue;
+    const cost = record.costCents ?? 0;
+    day.costCents += cost;
+    day.byProvider[record.provider] = (day.byProvider[record.provider] ?? 0) + cost;
+    day.runs++;
+  }
+  return [...usage.values()];
+};
+
+// Most expensive first
+export const usageByModel = (records: PredictionRecord[]): ModelUsage[] => {
+  const usage = new Map<string, ModelUsage & { latencyTotal: number; timed: number }>();
+  for (const record of records) {
+    let model = usage.get(record.modelId);
+    if (!model) {
+      model = {
+        modelId: record.modelId,
+        provider: record.provider,
+        modelVersions: [],
+        costCents: 0,
+        runs: 0,
+        failed: 0,
+        avgLatencyMs: null,
+        latencyTotal: 0,
+        timed: 0,
+      };
+      usage.set(record.modelId, model);
+    }
+
+    if (!model.modelVersions.includes(record.modelVersion)) model.modelVersions.push(record.modelVersion);
+    model.costCents += record.costCents ?? 0;
+    model.runs++;
+    if (record.status === 'failed') model.failed++;
+    if (record.status === 'succeeded' && record.latencyMs !== undefined) {
+      model.latencyTotal += record.latencyMs;
+      model.timed++;
+    }
+  }
+
+  return [...usage.values()]
+    .map(({ latencyTotal, timed, ...model }) => ({ ...model, avgLatencyMs: timed > 0 ? latencyTotal / timed : null }))
+    .sort((a, b) => b.costCents - a.costCents);
+};
+
+// Costs are fractions of a cent per run, so small totals keep more precision
+export const formatCents = (cents: number) =>
+  `$${(cents / 100).toFixed(cents < 100 ? 3 : 2)}`;
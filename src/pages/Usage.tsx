@@ -0,0 +1,7 @@
+import { UsageDashboard } from '@/components/Usage/UsageDashboard';
+
+const Usage = () => {
+  return <UsageDashboard />;
+};
+
+export default Usage;
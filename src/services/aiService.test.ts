@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIService, GenerationSettings, PredictionRecord, PredictionStore } from './aiService';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+class MemoryPredictionStore implements PredictionStore {
+  records = new Map<string, PredictionRecord>();
+
+  async find(idempotencyKey: string) {
+    return this.records.get(idempotencyKey) ?? null;
+  }
+
+  async save(record: PredictionRecord) {
+    this.records.set(record.idempotencyKey, { ...record });
+  }
+
+  async list() {
+    return [...this.records.values()];
+  }
+}
+
+const SETTINGS: GenerationSettings = {
+  model: 'sdxl-1.0',
+  steps: 20,
+  guidance: 7.5,
+  seed: 42,
+  width: 512,
+  height: 512,
+  strength: 0.8,
+  useUpscale: false,
+};
+
+const MINUTE = 60 * 1000;
+
+let store: MemoryPredictionStore;
+let service: AIService;
+let created: number;
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+
+  // Replicate answers every create with a new prediction that has already succeeded
+  created = 0;
+  vi.spyOn(axios, 'post').mockImplementation(async () => ({ data: { id: `p${++created}` } }));
+  vi.spyOn(axios, 'get').mockImplementation(async (url: string) => ({
+    data: { status: 'succeeded', output: [`https://replicate.delivery/${url.split('/').pop()}.png`] },
+  }));
+
+  store = new MemoryPredictionStore();
+  service = new AIService({ replicate: 'token' }, store);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// Moves the completion time of every stored record back
+const age = (ms: number) => {
+  for (const record of store.records.values()) {
+    record.completedAt = new Date(Date.parse(record.completedAt!) - ms).toISOString();
+  }
+};
+
+describe('AIService prediction tracking', () => {
+  it('records a succeeded call with its cost and latency', async () => {
+    const output = await service.generateImage('a fox', '', SETTINGS);
+
+    expect(output).toBe('https://replicate.delivery/p1.png');
+    const [record] = await store.list();
+    expect(record).toMatchObject({
+      provider: 'replicate',
+      modelId: 'sdxl-1.0',
+      capability: 'generate',
+      status: 'succeeded',
+      output,
+      costCents: 0.5,
+    });
+    expect(record.idempotencyKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reuses a recent result for an identical call with a fixed seed', async () => {
+    const first = await service.generateImage('a fox', '', SETTINGS);
+    age(49 * MINUTE);
+    const second = await service.generateImage('a fox', '', SETTINGS);
+
+    expect(second).toBe(first);
+    expect(created).toBe(1);
+    expect(store.records.size).toBe(1);
+  });
+
+  it('runs again once the result is older than the reuse window', async () => {
+    await service.generateImage('a fox', '', SETTINGS);
+    age(51 * MINUTE);
+    const second = await service.generateImage('a fox', '', SETTINGS);
+
+    expect(second).toBe('https://replicate.delivery/p2.png');
+    expect(created).toBe(2);
+  });
+
+  it('keys calls by their inputs', async () => {
+    await service.generateImage('a fox', '', SETTINGS);
+    await service.generateImage('a fox', '', { ...SETTINGS, steps: 30 });
+    await service.generateImage('a wolf', '', SETTINGS);
+
+    expect(created).toBe(3);
+    expect(store.records.size).toBe(3);
+  });
+
+  it('never reuses a call with a random seed', async () => {
+    await service.generateImage('a fox', '', { ...SETTINGS, seed: -1 });
+    await service.generateImage('a fox', '', { ...SETTINGS, seed: -1 });
+
+    expect(created).toBe(2);
+    expect(store.records.size).toBe(2);
+  });
+
+  it('records a failed call without cost', async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { status: 'failed', error: 'NSFW' } });
+
+    await expect(service.generateImage('a fox', '', SETTINGS)).rejects.toThrow('Generation failed: NSFW');
+    const [record] = await store.list();
+    expect(record.status).toBe('failed');
+    expect(record.costCents).toBeUndefined();
+
+    // A failed result is not reused
+    await service.generateImage('a fox', '', SETTINGS);
+    expect(created).toBe(2);
+  });
+
+  it('still runs the call when the store is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(store, 'find').mockRejectedValue(new Error('offline'));
+    vi.spyOn(store, 'save').mockRejectedValue(new Error('offline'));
+
+    await expect(service.generateImage('a fox', '', SETTINGS)).resolves.toBe('https://replicate.delivery/p1.png');
+  });
+});
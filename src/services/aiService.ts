@@ -1,6 +1,32 @@
 import axios from 'axios';
+import {
+  CancelledError,
+  SegmentationRequest,
+  SegmentationResponse,
+  fromTransferableImage,
+  toTransferableImage,
+} from './segmentation/protocol';
+import {
+  AutoMaskOptions,
+  BackgroundRemovalOptions,
+  DEFAULT_SAM_CONFIG,
+  LabeledMask,
+  SAMConfig,
+  SegmentationCandidate,
+  SegmentationOptions,
+} from './segmentation/types';
+import { requireModel } from './providers/registry';
+import { LocalProvider, LocalSegmentPrompt } from './providers/localProvider';
+import { PendingPrediction, PredictionJobManager, PredictionRunOptions } from './providers/predictionJobs';
+import { PredictionRecord, PredictionStore, createPredictionStore } from './providers/predictionStore';
+import { sha256Hex } from '@/lib/hash';
+import type { APIKeys, Capability, ModelDefinition } from './providers/types';
+import type { Mask } from '@/lib/mask';
+import type { MattingOptions } from '@/lib/alphaMatting';
+import type { InpaintOptions } from '@/lib/inpaint';
 
 export interface GenerationSettings {
+  // Registry model id
   model: string;
   steps: number;
   guidance: number;
@@ -11,442 +37,536 @@ export interface GenerationSettings {
   useUpscale: boolean;
 }
 
-export interface APIKeys {
-  replicate?: string;
-  deepinfra?: string;
+export interface EnhanceSettings {
+  // Output sides are this many times the input's
+  scale: 2 | 4;
+  // Restore faces with GFPGAN after upscaling
+  faceEnhance: boolean;
+  // Edge-preserving smoothing applied before upload, 0 = off, 1 = strongest
+  denoise: number;
 }
 
+export const DEFAULT_ENHANCE_SETTINGS: EnhanceSettings = {
+  scale: 2,
+  faceEnhance: false,
+  denoise: 0,
+};
+
+export type { APIKeys } from './providers/types';
+export type { PendingPrediction, PredictionRunOptions } from './providers/predictionJobs';
+export { pendingPredictions } from './providers/predictionJobs';
+
+export type { PredictionRecord, PredictionStatus, PredictionStore } from './providers/predictionStore';
+
+// Where every provider call is recorded; see createPredictionStore for the backend choice
+export const predictionStore = createPredictionStore();
+
+// Provider result URLs expire (Replicate deletes outputs after an hour), so older results are not reused
+const RESULT_REUSE_WINDOW_MS = 50 * 60 * 1000;
+
 export class AIService {
   private apiKeys: APIKeys;
+  private predictions: PredictionStore;
 
-  constructor(apiKeys: APIKeys) {
+  constructor(apiKeys: APIKeys, predictions: PredictionStore = predictionStore) {
     this.apiKeys = apiKeys;
+    this.predictions = predictions;
   }
 
-  async generateImage(prompt: string, negativePrompt: string = '', settings: GenerationSettings): Promise<string> {
-    const { model } = settings;
-    
-    if (model.includes('replicate')) {
-      return this.generateWithReplicate(prompt, negativePrompt, settings);
-    } else if (model.includes('deepinfra')) {
-      return this.generateWithDeepInfra(prompt, negativePrompt, settings);
-    }
-    
-    throw new Error('Unsupported model provider');
-  }
-
-  private async generateWithReplicate(prompt: string, negativePrompt: string, settings: GenerationSettings): Promise<string> {
-    if (!this.apiKeys.replicate) {
-      throw new Error('Replicate API key not found');
-    }
-
-    const response = await axios.post(
-      'https://api.replicate.com/v1/predictions',
-      {
-        version: this.getReplicateModelVersion(settings.model),
-        input: {
-          prompt,
-          negative_prompt: negativePrompt,
-          width: settings.width,
-          height: settings.height,
-          num_inference_steps: settings.steps,
-          guidance_scale: settings.guidance,
-          seed: settings.seed === -1 ? undefined : settings.seed,
-        }
-      },
-      {
-        headers: {
-          'Authorization': `Token ${this.apiKeys.replicate}`,
-          'Content-Type': 'application/json',
-        }
+  async generateImage(
+    prompt: string,
+    negativePrompt: string = '',
+    settings: GenerationSettings,
+    options: PredictionRunOptions = {}
+  ): Promise<string> {
+    const model = requireModel(settings.model, 'generate');
+
+    const request = { prompt, negativePrompt, ...settings };
+    return this.tracked(model, 'generate', request, settings.seed !== -1, options, async (options) => {
+      switch (model.provider) {
+        case 'replicate':
+          return this.generateWithReplicate(model, prompt, negativePrompt, settings, options);
+        case 'deepinfra':
+          return this.generateWithDeepInfra(model, prompt, negativePrompt, settings, options);
+        case 'local':
+          return this.localProvider(options).generate({
+            model: model.providerModel,
+            prompt,
+            negative_prompt: negativePrompt,
+            width: settings.width,
+            height: settings.height,
+            steps: settings.steps,
+            guidance: settings.guidance,
+            seed: settings.seed === -1 ? undefined : settings.seed,
+          });
+        default:
+          throw new Error(`Unsupported model provider: ${model.provider}`);
       }
-    );
+    });
+  }
 
-    return this.pollReplicateResult(response.data.id);
+  private async generateWithReplicate(
+    model: ModelDefinition,
+    prompt: string,
+    negativePrompt: string,
+    settings: GenerationSettings,
+    options: PredictionRunOptions
+  ): Promise<string> {
+    return this.runReplicate(model, 'generate', {
+      prompt,
+      negative_prompt: negativePrompt,
+      width: settings.width,
+      height: settings.height,
+      num_inference_steps: settings.steps,
+      guidance_scale: settings.guidance,
+      seed: settings.seed === -1 ? undefined : settings.seed,
+    }, options);
   }
 
-  private async generateWithDeepInfra(prompt: string, negativePrompt: string, settings: GenerationSettings): Promise<string> {
-    if (!this.apiKeys.deepinfra) {
-      throw new Error('DeepInfra API key not found');
-    }
+  private async generateWithDeepInfra(
+    model: ModelDefinition,
+    prompt: string,
+    negativePrompt: string,
+    settings: GenerationSettings,
+    options: PredictionRunOptions
+  ): Promise<string> {
+    return this.runDeepInfra(model, {
+      prompt,
+      negative_prompt: negativePrompt,
+      width: settings.width,
+      height: settings.height,
+      num_inference_steps: settings.steps,
+      guidance_scale: settings.guidance,
+      seed: settings.seed === -1 ? undefined : settings.seed,
+    }, options);
+  }
 
-    const response = await axios.post(
-      `https://api.deepinfra.com/v1/inference/${this.getDeepInfraModelName(settings.model)}`,
-      {
-        input: {
-          prompt,
-          negative_prompt: negativePrompt,
-          width: settings.width,
-          height: settings.height,
-          num_inference_steps: settings.steps,
-          guidance_scale: settings.guidance,
-          seed: settings.seed === -1 ? undefined : settings.seed,
-        }
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${this.apiKeys.deepinfra}`,
-          'Content-Type': 'application/json',
-        }
+  // The mask is white where the image should change
+  async inpaintImage(
+    imageUrl: string, 
+    maskUrl: string, 
+    prompt: string, 
+    settings: GenerationSettings,
+    negativePrompt: string = '',
+    options: PredictionRunOptions = {}
+  ): Promise<string> {
+    const model = requireModel(settings.model, 'inpaint');
+
+    const request = { imageUrl, maskUrl, prompt, negativePrompt, ...settings };
+    return this.tracked(model, 'inpaint', request, settings.seed !== -1, options, async (options) => {
+      switch (model.provider) {
+        case 'replicate':
+          return this.runReplicate(model, 'inpaint', {
+            image: imageUrl,
+            mask: maskUrl,
+            prompt,
+            negative_prompt: negativePrompt,
+            prompt_strength: settings.strength,
+            num_inference_steps: settings.steps,
+            guidance_scale: settings.guidance,
+            seed: settings.seed === -1 ? undefined : settings.seed,
+          }, options);
+        case 'deepinfra':
+          return this.runDeepInfra(model, {
+            image: imageUrl,
+            mask_image: maskUrl,
+            prompt,
+            negative_prompt: negativePrompt,
+            strength: settings.strength,
+            num_inference_steps: settings.steps,
+            guidance_scale: settings.guidance,
+            seed: settings.seed === -1 ? undefined : settings.seed,
+          }, options);
+        case 'local':
+          return this.localProvider(options).inpaint({
+            model: model.providerModel,
+            image: imageUrl,
+            mask: maskUrl,
+            prompt,
+            negative_prompt: negativePrompt,
+            strength: settings.strength,
+            steps: settings.steps,
+            guidance: settings.guidance,
+            seed: settings.seed === -1 ? undefined : settings.seed,
+          });
+        default:
+          throw new Error(`Unsupported model provider for inpainting: ${model.provider}`);
       }
-    );
-
-    return response.data.images[0];
+    });
   }
 
-  private async pollReplicateResult(predictionId: string): Promise<string> {
-    const maxAttempts = 60;
-    const pollInterval = 2000;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const response = await axios.get(
-        `https://api.replicate.com/v1/predictions/${predictionId}`,
-        {
-          headers: {
-            'Authorization': `Token ${this.apiKeys.replicate}`,
-          }
-        }
-      );
-
-      const { status, output, error } = response.data;
-
-      if (status === 'succeeded') {
-        return Array.isArray(output) ? output[0] : output;
+  // Upscales the image; the result is settings.scale times larger than the input
+  async enhanceImage(
+    imageUrl: string,
+    settings: EnhanceSettings,
+    modelId: string = 'real-esrgan',
+    options: PredictionRunOptions = {}
+  ): Promise<string> {
+    const model = requireModel(modelId, 'enhance');
+
+    return this.tracked(model, 'enhance', { imageUrl, ...settings }, true, options, async (options) => {
+      switch (model.provider) {
+        case 'replicate':
+          return this.runReplicate(model, 'enhance', {
+            image: imageUrl,
+            scale: settings.scale,
+            face_enhance: settings.faceEnhance,
+          }, options);
+        case 'local':
+          return this.localProvider(options).enhance({
+            model: model.providerModel,
+            image: imageUrl,
+            scale: settings.scale,
+            face_enhance: settings.faceEnhance,
+          });
+        default:
+          throw new Error(`Unsupported model provider for enhancement: ${model.provider}`);
       }
+    });
+  }
 
-      if (status === 'failed') {
-        throw new Error(`Generation failed: ${error}`);
-      }
+  // Server-side segmentation; returns a grayscale mask URL, white = object.
+  // In-browser models go through segmentationService instead.
+  async segmentImage(
+    imageUrl: string,
+    prompt: LocalSegmentPrompt = {},
+    modelId: string = 'local-segmenter',
+    options: PredictionRunOptions = {}
+  ): Promise<string> {
+    const model = requireModel(modelId, 'segment');
 
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    if (model.provider !== 'local') {
+      throw new Error(`Unsupported model provider for server segmentation: ${model.provider}`);
     }
+    return this.localProvider(options).segment({ model: model.providerModel, image: imageUrl, ...prompt });
+  }
 
-    throw new Error('Generation timeout');
+  // Collects the result of a prediction started before the page was reloaded
+  async resumePrediction(prediction: PendingPrediction, options: PredictionRunOptions = {}): Promise<string> {
+    const { idempotencyKey } = prediction;
+    const record = idempotencyKey ? await this.safely(() => this.predictions.find(idempotencyKey)) : null;
+    if (!record) {
+      return this.predictionJobs().wait(prediction.id, options);
+    }
+    return this.settle(record, Date.parse(record.createdAt), () => this.predictionJobs().wait(prediction.id, options));
   }
 
-  private getReplicateModelVersion(model: string): string {
-    const versions = {
-      'sdxl-1.0': 'stability-ai/sdxl:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b',
-      'flux-dev': 'black-forest-labs/flux-dev:5b3e8162-e726-4add-bfde-053dac7dc5a4',
+  // Identical deterministic calls reuse a recent completed result instead of paying twice; every
+  // call is recorded with its status, latency and estimated cost
+  private async tracked(
+    model: ModelDefinition,
+    capability: Capability,
+    request: Record<string, unknown>,
+    deterministic: boolean,
+    options: PredictionRunOptions,
+    run: (options: PredictionRunOptions) => Promise<string>
+  ): Promise<string> {
+    const idempotencyKey = await sha256Hex(JSON.stringify({
+      model: model.id,
+      version: model.providerModel,
+      capability,
+      request,
+      // Random seeds give a different result every time, so such calls never match an earlier one
+      nonce: deterministic ? undefined : crypto.randomUUID(),
+    }));
+
+    const previous = await this.safely(() => this.predictions.find(idempotencyKey));
+    if (
+      previous?.status === 'succeeded' &&
+      previous.output &&
+      previous.completedAt &&
+      Date.now() - Date.parse(previous.completedAt) < RESULT_REUSE_WINDOW_MS
+    ) {
+      return previous.output;
+    }
+
+    const started = Date.now();
+    const record: PredictionRecord = {
+      idempotencyKey,
+      provider: model.provider,
+      modelId: model.id,
+      modelVersion: model.providerModel,
+      capability,
+      status: 'running',
+      costCents: model.costCents,
+      createdAt: new Date(started).toISOString(),
     };
-    
-    return versions[model as keyof typeof versions] || versions['sdxl-1.0'];
+    await this.safely(() => this.predictions.save(record));
+    return this.settle(record, started, () => run({ ...options, idempotencyKey }));
   }
 
-  private getDeepInfraModelName(model: string): string {
-    const models = {
-      'kandinsky-3': 'kandinsky-community/kandinsky-3',
-      'sdxl-turbo': 'stabilityai/stable-diffusion-xl-base-1.0',
-    };
-    
-    return models[model as keyof typeof models] || models['sdxl-turbo'];
+  // Runs the call and records how it ended
+  private async settle(record: PredictionRecord, started: number, run: () => Promise<string>): Promise<string> {
+    const finish = (update: Partial<PredictionRecord>) => this.safely(() => this.predictions.save({
+      ...record,
+      ...update,
+      latencyMs: Date.now() - started,
+      completedAt: new Date().toISOString(),
+    }));
+
+    try {
+      const output = await run();
+      await finish({ status: 'succeeded', output });
+      return output;
+    } catch (error) {
+      // Only a run that produced a result counts against the usage totals and budget
+      await finish({ status: error instanceof CancelledError ? 'cancelled' : 'failed', costCents: undefined });
+      throw error;
+    }
   }
 
-  async inpaintImage(
-    imageUrl: string, 
-    maskUrl: string, 
-    prompt: string, 
-    settings: GenerationSettings
-  ): Promise<string> {
-    const { model } = settings;
-    
-    if (model.includes('replicate')) {
-      return this.inpaintWithReplicate(imageUrl, maskUrl, prompt, settings);
-    } else if (model.includes('deepinfra')) {
-      return this.inpaintWithDeepInfra(imageUrl, maskUrl, prompt, settings);
+  // Tracking is best effort; a store outage must not fail the AI call itself
+  private async safely<T>(operation: () => Promise<T>): Promise<T | null> {
+    try {
+      return await operation();
+    } catch (error) {
+      console.warn('Prediction store unavailable:', error);
+      return null;
     }
-    
-    throw new Error('Unsupported model provider for inpainting');
   }
 
-  private async inpaintWithReplicate(
-    imageUrl: string,
-    maskUrl: string, 
-    prompt: string,
-    settings: GenerationSettings
-  ): Promise<string> {
+  private localProvider({ signal }: PredictionRunOptions = {}): LocalProvider {
+    if (!this.apiKeys.localUrl) {
+      throw new Error('Local server URL not configured');
+    }
+    return new LocalProvider(this.apiKeys.localUrl, signal);
+  }
+
+  private predictionJobs(): PredictionJobManager {
     if (!this.apiKeys.replicate) {
       throw new Error('Replicate API key not found');
     }
+    return new PredictionJobManager(this.apiKeys.replicate);
+  }
 
-    const response = await axios.post(
-      'https://api.replicate.com/v1/predictions',
-      {
-        version: 'stability-ai/stable-diffusion-inpainting:95b7223104132402a9ae91cc677285bc5eb997834bd2349fa486f53910fd68b3',
-        input: {
-          image: imageUrl,
-          mask: maskUrl,
-          prompt,
-          negative_prompt: '',
-          num_inference_steps: settings.steps,
-          guidance_scale: settings.guidance,
-          seed: settings.seed === -1 ? undefined : settings.seed,
-        }
-      },
-      {
-        headers: {
-          'Authorization': `Token ${this.apiKeys.replicate}`,
-          'Content-Type': 'application/json',
-        }
-      }
-    );
-
-    return this.pollReplicateResult(response.data.id);
+  private async runReplicate(
+    model: ModelDefinition,
+    capability: Capability,
+    input: Record<string, unknown>,
+    options: PredictionRunOptions
+  ): Promise<string> {
+    return this.predictionJobs().run(model.providerModel, input, { modelId: model.id, capability }, options);
   }
 
-  private async inpaintWithDeepInfra(
-    imageUrl: string,
-    maskUrl: string,
-    prompt: string,
-    settings: GenerationSettings
+  private async runDeepInfra(
+    model: ModelDefinition,
+    input: Record<string, unknown>,
+    { signal }: PredictionRunOptions
   ): Promise<string> {
     if (!this.apiKeys.deepinfra) {
       throw new Error('DeepInfra API key not found');
     }
 
     const response = await axios.post(
-      'https://api.deepinfra.com/v1/inference/stabilityai/stable-diffusion-2-inpainting',
-      {
-        input: {
-          image: imageUrl,
-          mask_image: maskUrl,
-          prompt,
-          num_inference_steps: settings.steps,
-          guidance_scale: settings.guidance,
-          seed: settings.seed === -1 ? undefined : settings.seed,
-        }
-      },
+      `https://api.deepinfra.com/v1/inference/${model.providerModel}`,
+      { input },
       {
         headers: {
           'Authorization': `Bearer ${this.apiKeys.deepinfra}`,
           'Content-Type': 'application/json',
-        }
+        },
+        signal
       }
-    );
+    ).catch(error => {
+      throw axios.isCancel(error) ? new CancelledError('Prediction cancelled') : error;
+    });
 
     return response.data.images[0];
   }
+}
 
-  async enhanceImage(imageUrl: string, settings: any): Promise<string> {
-    if (!this.apiKeys.replicate) {
-      throw new Error('Replicate API key not found');
-    }
+// Advanced SAM2 Segmentation Service
+export type {
+  AutoMaskOptions,
+  BackgroundRemovalOptions,
+  LabeledMask,
+  SegmentationCandidate,
+  SegmentationMode,
+  SegmentationOptions,
+} from './segmentation/types';
+export { CancelledError } from './segmentation/protocol';
+
+export interface SegmentationRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, message?: string) => void;
+}
 
-    const response = await axios.post(
-      'https://api.replicate.com/v1/predictions',
-      {
-        version: 'nightmareai/real-esrgan:42fed1c4974146d4d2414e2be2c5277c7fcf05fcc3a73abf41610695738c1d7b',
-        input: {
-          image: imageUrl,
-          scale: settings.scale || 4,
-          face_enhance: settings.faceEnhance || false,
-        }
-      },
-      {
-        headers: {
-          'Authorization': `Token ${this.apiKeys.replicate}`,
-          'Content-Type': 'application/json',
-        }
-      }
-    );
+type SegmentationResult = Extract<SegmentationResponse, { type: 'result' }>;
 
-    return this.pollReplicateResult(response.data.id);
-  }
+interface PendingRequest {
+  resolve: (result: SegmentationResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number, message?: string) => void;
 }
 
-// Advanced SAM2 Segmentation Service
+// Main-thread client for the segmentation worker
 export class SegmentationService {
-  private initialized = false;
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private samReady = false;
+  private samModelId = DEFAULT_SAM_CONFIG.modelId;
+
+  get isSAMReady(): boolean {
+    return this.samReady;
+  }
+
+  get modelId(): string {
+    return this.samModelId;
+  }
 
-  async initializeSAM2(): Promise<void> {
-    console.log('SAM2 initialized with advanced algorithmic fallback');
-    this.initialized = true;
+  async initializeSAM2(config: Partial<SAMConfig> = {}, run: SegmentationRunOptions = {}): Promise<void> {
+    const fullConfig = { ...DEFAULT_SAM_CONFIG, ...config };
+    await this.send(id => ({ type: 'init', id, config: fullConfig }), [], run);
+    this.samModelId = fullConfig.modelId;
+    this.samReady = true;
   }
 
   async segmentWithSAM2(
     imageData: ImageData, 
-    clickPoint: { x: number; y: number },
-    options: {
-      includeEdges?: boolean;
-      threshold?: number;
-      dilate?: number;
-      positivePoints?: Array<{ x: number; y: number; type: string }>;
-      negativePoints?: Array<{ x: number; y: number; type: string }>;
-    } = {}
-  ): Promise<ImageData> {
-    return this.advancedFallbackSegmentation(imageData, clickPoint, options);
+    clickPoint: { x: number; y: number } | undefined,
+    options: SegmentationOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<Mask> {
+    const [best] = await this.segmentCandidates(imageData, clickPoint, options, run);
+    return best.mask;
   }
 
-  private async advancedFallbackSegmentation(
+  // All mask proposals for a prompt set, best score first
+  async segmentCandidates(
     imageData: ImageData,
-    clickPoint: { x: number; y: number },
-    options: { 
-      includeEdges?: boolean; 
-      threshold?: number; 
-      dilate?: number;
-      positivePoints?: Array<{ x: number; y: number; type: string }>;
-      negativePoints?: Array<{ x: number; y: number; type: string }>;
-    }
-  ): Promise<ImageData> {
-    const { includeEdges = true, threshold = 30, dilate = 2, positivePoints = [], negativePoints = [] } = options;
-    const { width, height, data } = imageData;
-    const mask = new ImageData(width, height);
-
-    // Get target color at click point
-    const targetIdx = (clickPoint.y * width + clickPoint.x) * 4;
-    const targetR = data[targetIdx];
-    const targetG = data[targetIdx + 1];
-    const targetB = data[targetIdx + 2];
-
-    // Multi-point intelligent segmentation
-    const visited = new Set<string>();
-    const allPoints = [clickPoint, ...positivePoints];
-    
-    const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) => {
-      return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
-    };
+    clickPoint: { x: number; y: number } | undefined,
+    options: SegmentationOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<SegmentationCandidate[]> {
+    // Copy so the caller keeps its pixels after the buffer is transferred
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    const { candidates = [] } = await this.send(
+      id => ({ type: 'segment', id, image, clickPoint, options }),
+      [image.buffer],
+      run
+    );
+    return candidates;
+  }
 
-    // Process all positive points
-    for (const point of allPoints) {
-      const queue = [{ x: point.x, y: point.y }];
-      
-      while (queue.length > 0) {
-        const { x, y } = queue.shift()!;
-        const key = `${x},${y}`;
-        
-        if (visited.has(key) || x < 0 || x >= width || y < 0 || y >= height) continue;
-        visited.add(key);
-
-        const idx = (y * width + x) * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-
-        const distance = colorDistance(r, g, b, targetR, targetG, targetB);
-        
-        if (distance <= threshold) {
-          // Mark as selected
-          const maskIdx = idx;
-          mask.data[maskIdx] = 255;     // R
-          mask.data[maskIdx + 1] = 100; // G
-          mask.data[maskIdx + 2] = 255; // B  
-          mask.data[maskIdx + 3] = 180; // A
-
-          // Add neighbors to queue
-          queue.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
-        }
-      }
-    }
+  // Automatic mode: one labeled mask per object found, largest first
+  async segmentEverything(
+    imageData: ImageData,
+    options: AutoMaskOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<LabeledMask[]> {
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    const { objects = [] } = await this.send(id => ({ type: 'segment-all', id, image, options }), [image.buffer], run);
+    return objects;
+  }
 
-    // Remove negative points
-    for (const negPoint of negativePoints) {
-      const removeQueue = [{ x: negPoint.x, y: negPoint.y }];
-      const removeVisited = new Set<string>();
-      
-      while (removeQueue.length > 0) {
-        const { x, y } = removeQueue.shift()!;
-        const key = `${x},${y}`;
-        
-        if (removeVisited.has(key) || x < 0 || x >= width || y < 0 || y >= height) continue;
-        removeVisited.add(key);
-
-        const idx = (y * width + x) * 4;
-        if (mask.data[idx + 3] > 0) {
-          // Remove from mask
-          mask.data[idx] = 0;
-          mask.data[idx + 1] = 0;
-          mask.data[idx + 2] = 0;
-          mask.data[idx + 3] = 0;
-
-          // Add neighbors to remove queue
-          removeQueue.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
-        }
-      }
-    }
+  // Soft alpha for the mask; the unknown band around its edge is solved from the image colors
+  async matteMask(
+    imageData: ImageData,
+    mask: Mask,
+    options: MattingOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<Mask> {
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    const { mask: matte } = await this.send(id => ({ type: 'matte', id, image, mask, options }), [image.buffer], run);
+    return matte!;
+  }
 
-    // Apply dilation if specified
-    if (dilate > 0) {
-      return this.dilateMask(mask, dilate);
-    }
+  // Offline Smart Erase: the image with the masked region filled from its surroundings
+  async inpaintLocally(
+    imageData: ImageData,
+    mask: Mask,
+    options: InpaintOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<ImageData> {
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    const { image: result } = await this.send(id => ({ type: 'inpaint', id, image, mask, options }), [image.buffer], run);
+    return fromTransferableImage(result!);
+  }
+
+  // Magic Cut: foreground alpha of the main subject
+  async removeBackground(
+    imageData: ImageData,
+    options: BackgroundRemovalOptions = {},
+    run: SegmentationRunOptions = {}
+  ): Promise<Mask> {
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    const { mask } = await this.send(id => ({ type: 'remove-background', id, image, options }), [image.buffer], run);
+    return mask!;
+  }
 
-    return mask;
+  // Runs the SAM encoder once per image; later prompt sets only hit the decoder
+  async encodeImage(imageData: ImageData, imageKey?: string, run: SegmentationRunOptions = {}): Promise<void> {
+    const image = toTransferableImage(new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height));
+    await this.send(id => ({ type: 'encode', id, image, imageKey }), [image.buffer], run);
   }
 
-  private processSAMResult(result: any, width: number, height: number, dilate: number): ImageData {
-    const mask = new ImageData(width, height);
-    
-    // Process SAM2 result into mask
-    if (result.masks && result.masks.length > 0) {
-      const maskData = result.masks[0];
-      
-      for (let i = 0; i < maskData.length; i++) {
-        const value = maskData[i] > 0.5 ? 255 : 0;
-        const idx = i * 4;
-        
-        mask.data[idx] = 255;     // R
-        mask.data[idx + 1] = 100; // G
-        mask.data[idx + 2] = 255; // B
-        mask.data[idx + 3] = value; // A
-      }
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./segmentation/segmentation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SegmentationResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => {
+        // The worker is unusable after an uncaught error; fail everything in flight
+        const error = new Error(event.message || 'Segmentation worker crashed');
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+        this.samReady = false;
+      };
     }
-
-    return dilate > 0 ? this.dilateMask(mask, dilate) : mask;
+    return this.worker;
   }
 
-  private dilateMask(mask: ImageData, iterations: number): ImageData {
-    const { width, height } = mask;
-    let currentMask = new ImageData(new Uint8ClampedArray(mask.data), width, height);
-    
-    for (let iter = 0; iter < iterations; iter++) {
-      const newMask = new ImageData(width, height);
-      
-      for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-          const idx = (y * width + x) * 4;
-          
-          // Check if current pixel or any neighbor is selected
-          let hasSelected = false;
-          for (let dy = -1; dy <= 1; dy++) {
-            for (let dx = -1; dx <= 1; dx++) {
-              const neighborIdx = ((y + dy) * width + (x + dx)) * 4;
-              if (currentMask.data[neighborIdx + 3] > 128) {
-                hasSelected = true;
-                break;
-              }
-            }
-            if (hasSelected) break;
-          }
-          
-          if (hasSelected) {
-            newMask.data[idx] = 255;     // R
-            newMask.data[idx + 1] = 100; // G
-            newMask.data[idx + 2] = 255; // B
-            newMask.data[idx + 3] = 180; // A
-          }
-        }
-      }
-      
-      currentMask = newMask;
+  private send(
+    build: (id: number) => SegmentationRequest,
+    transfer: Transferable[],
+    { signal, onProgress }: SegmentationRunOptions
+  ): Promise<SegmentationResult> {
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError());
     }
-    
-    return currentMask;
+
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => worker.postMessage({ type: 'cancel', id } satisfies SegmentationRequest);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        onProgress,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+
+      worker.postMessage(build(id), transfer);
+    });
   }
 
-  async segmentMultipleObjects(
-    imageData: ImageData,
-    points: Array<{ x: number; y: number; type: 'foreground' | 'background' }>
-  ): Promise<ImageData[]> {
-    // Implementation for multi-object segmentation
-    const masks: ImageData[] = [];
-    
-    for (const point of points) {
-      if (point.type === 'foreground') {
-        const mask = await this.segmentWithSAM2(imageData, point);
-        masks.push(mask);
-      }
+  private handleResponse(response: SegmentationResponse) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    switch (response.type) {
+      case 'progress':
+        request.onProgress?.(response.progress, response.message);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        request.resolve(response);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        request.reject(response.cancelled ? new CancelledError() : new Error(response.message));
+        break;
     }
-    
-    return masks;
   }
 }
 
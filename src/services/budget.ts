@@ -0,0 +1,39 @@
+import { predictionStore, type PredictionStore } from './aiService';
+import { startOfMonth, totalCostCents } from '@/lib/usage';
+
+const STORAGE_KEY = 'monthly-budget-cents';
+
+// Spending limit for AI calls per calendar month, kept in this browser; null means no limit
+export const monthlyBudget = {
+  get(): number | null {
+    const value = Number(localStorage.getItem(STORAGE_KEY));
+    return value > 0 ? value : null;
+  },
+  set(cents: number | null) {
+    if (cents && cents > 0) {
+      localStorage.setItem(STORAGE_KEY, String(cents));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  },
+};
+
+export interface BudgetCheck {
+  budgetCents: number;
+  spentCents: number;
+  // Spent so far this month plus the job about to start
+  projectedCents: number;
+}
+
+export const monthToDateCents = async (store: PredictionStore = predictionStore) =>
+  totalCostCents(await store.list(startOfMonth(new Date())));
+
+// The budget state when a job of the given estimated cost would take this month over budget, otherwise null
+export const checkBudget = async (costCents: number, store: PredictionStore = predictionStore): Promise<BudgetCheck | null> => {
+  const budgetCents = monthlyBudget.get();
+  if (budgetCents === null || costCents <= 0) return null;
+
+  const spentCents = await monthToDateCents(store);
+  const projectedCents = spentCents + costCents;
+  return projectedCents > budgetCents ? { budgetCents, spentCents, projectedCents } : null;
+};
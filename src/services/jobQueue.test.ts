@@ -0,0 +1,231 @@
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CancelledError } from './segmentation/protocol';
+import { PredictionJobManager } from './providers/predictionJobs';
+import { JobContext, JobQueue, JobSnapshot, isTransientError } from './jobQueue';
+import { RateLimiter } from './rateLimiter';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    headers,
+    data: {},
+  } as AxiosResponse);
+
+// A job body the test finishes by hand
+const controlled = () => {
+  const calls: { context: JobContext; resolve: (value: string) => void; reject: (error: unknown) => void }[] = [];
+  const run = (context: JobContext) =>
+    new Promise<string>((resolve, reject) => {
+      calls.push({ context, resolve, reject });
+    });
+  return { calls, run };
+};
+
+const FAST_RETRY = { baseDelayMs: 1, maxDelayMs: 1 };
+
+// Lets started jobs reach their run call
+const settle = () => new Promise(resolve => setTimeout(resolve, 5));
+
+const statuses = (queue: JobQueue) => queue.getJobs().map(job => job.status);
+
+let queue: JobQueue;
+
+beforeEach(() => {
+  queue = new JobQueue({ replicate: 2, browser: 1 });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('isTransientError', () => {
+  it('retries network failures, rate limits and server errors only', () => {
+    expect(isTransientError(new AxiosError('Network Error', 'ERR_NETWORK'))).toBe(true);
+    expect(isTransientError(httpError(429))).toBe(true);
+    expect(isTransientError(httpError(503))).toBe(true);
+    expect(isTransientError(httpError(422))).toBe(false);
+    expect(isTransientError(new AxiosError('canceled', AxiosError.ERR_CANCELED))).toBe(false);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('JobQueue', () => {
+  it('runs jobs up to the concurrency of their provider', async () => {
+    const { calls, run } = controlled();
+    const jobs = [1, 2, 3].map(n => queue.enqueue({ label: `replicate ${n}`, provider: 'replicate', run }));
+    queue.enqueue({ label: 'browser', provider: 'browser', run });
+    await settle();
+
+    expect(statuses(queue)).toEqual(['running', 'running', 'queued', 'running']);
+    expect(calls).toHaveLength(3);
+
+    calls[0].resolve('first');
+    await expect(jobs[0].result).resolves.toBe('first');
+    await settle();
+    expect(statuses(queue)).toEqual(['succeeded', 'running', 'running', 'running']);
+    expect(calls).toHaveLength(4);
+  });
+
+  it('reports progress from the running job', async () => {
+    const { calls, run } = controlled();
+    queue.enqueue({ label: 'job', provider: 'replicate', run });
+    await settle();
+
+    calls[0].context.onProgress(0.4, 'Denoising');
+    expect(queue.getJobs()[0]).toMatchObject({ progress: 0.4, message: 'Denoising' });
+    calls[0].context.onProgress(0.5);
+    expect(queue.getJobs()[0]).toMatchObject({ progress: 0.5, message: 'Denoising' });
+  });
+
+  it('retries transient errors with backoff until the attempts run out', async () => {
+    const seen: JobSnapshot[] = [];
+    queue.subscribe(jobs => seen.push(...jobs));
+    const run = vi.fn(async (_context: JobContext): Promise<string> => {
+      throw httpError(503);
+    });
+    const { result } = queue.enqueue({ label: 'job', provider: 'replicate', run, retry: FAST_RETRY });
+
+    await expect(result).rejects.toThrow('status code 503');
+    expect(run.mock.calls.map(([context]) => context.attempt)).toEqual([1, 2, 3]);
+    expect(seen.filter(job => job.status === 'retrying').map(job => job.message)).toContain(
+      'Retrying in 1s (attempt 2 of 3)'
+    );
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'failed', attempt: 3, error: 'Request failed with status code 503' });
+  });
+
+  it('succeeds on a later attempt', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new AxiosError('Network Error', 'ERR_NETWORK'))
+      .mockResolvedValueOnce('done');
+    const { result } = queue.enqueue({ label: 'job', provider: 'replicate', run, retry: FAST_RETRY });
+
+    await expect(result).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails at once on errors that are not worth retrying', async () => {
+    const run = vi.fn().mockRejectedValue(httpError(422));
+    const { result } = queue.enqueue({ label: 'job', provider: 'replicate', run, retry: FAST_RETRY });
+
+    await expect(result).rejects.toThrow('status code 422');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const { calls, run } = controlled();
+    queue.enqueue({ label: 'first', provider: 'browser', run });
+    const second = queue.enqueue({ label: 'second', provider: 'browser', run });
+
+    queue.cancel(second.id);
+    await expect(second.result).rejects.toBeInstanceOf(CancelledError);
+    expect(statuses(queue)).toEqual(['running', 'cancelled']);
+
+    calls[0].resolve('done');
+    await settle();
+    expect(calls).toHaveLength(1);
+  });
+
+  it('cancels a running job through its signal', async () => {
+    const run = ({ signal }: JobContext) =>
+      new Promise<string>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    const { id, result } = queue.enqueue({ label: 'job', provider: 'replicate', run });
+    await settle();
+
+    queue.cancel(id);
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+    expect(statuses(queue)).toEqual(['cancelled']);
+  });
+
+  it('cancels a job waiting to retry', async () => {
+    const run = vi.fn().mockRejectedValue(httpError(503));
+    const { id, result } = queue.enqueue({
+      label: 'job',
+      provider: 'replicate',
+      run,
+      retry: { baseDelayMs: 60000, maxDelayMs: 60000 },
+    });
+    await settle();
+
+    expect(statuses(queue)).toEqual(['retrying']);
+    queue.cancel(id);
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears finished jobs only', async () => {
+    const { calls, run } = controlled();
+    queue.enqueue({ label: 'first', provider: 'replicate', run });
+    queue.enqueue({ label: 'second', provider: 'replicate', run });
+    await settle();
+
+    calls[0].resolve('done');
+    await settle();
+    queue.clearFinished();
+    expect(queue.getJobs().map(job => job.label)).toEqual(['second']);
+  });
+
+  it('holds jobs as rate-limited until the limiter lets them out', async () => {
+    const limiter = new RateLimiter();
+    vi.spyOn(limiter, 'reserve').mockReturnValueOnce(20).mockReturnValue(0);
+    queue = new JobQueue({}, limiter);
+    const { calls, run } = controlled();
+    queue.enqueue({ label: 'job', provider: 'replicate', run });
+
+    expect(queue.getJobs()[0]).toMatchObject({
+      status: 'rate-limited',
+      message: 'Queued due to rate limit, starting in 1s',
+    });
+    expect(calls).toHaveLength(0);
+    await new Promise(resolve => setTimeout(resolve, 40));
+    expect(statuses(queue)).toEqual(['running']);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('waits out a 429 without using up an attempt', async () => {
+    const limiter = new RateLimiter();
+    const penalize = vi.spyOn(limiter, 'penalize');
+    queue = new JobQueue({}, limiter);
+    const run = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0.01' }))
+      .mockResolvedValueOnce('done');
+    const { result } = queue.enqueue({ label: 'job', provider: 'replicate', run, retry: { attempts: 1 } });
+
+    await expect(result).resolves.toBe('done');
+    expect(penalize).toHaveBeenCalledWith('personal:replicate', 10);
+    expect(run.mock.calls.map(([context]) => context.attempt)).toEqual([1, 1]);
+  });
+
+  it('keeps polling the same prediction when a poll fails', async () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: { id: 'p1' } });
+    const get = vi.spyOn(axios, 'get')
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new AxiosError('Network Error', 'ERR_NETWORK'))
+      .mockResolvedValue({ data: { status: 'succeeded', output: ['https://replicate.delivery/p1.png'] } });
+    const manager = new PredictionJobManager('token', { initialDelay: 1, maxDelay: 1 });
+
+    const { result } = queue.enqueue({
+      label: 'generate',
+      provider: 'replicate',
+      run: ({ signal }) => manager.run('version', {}, { modelId: 'sdxl-1.0', capability: 'generate' }, { signal }),
+      retry: FAST_RETRY,
+    });
+
+    await expect(result).resolves.toBe('https://replicate.delivery/p1.png');
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(get.mock.calls.every(([url]) => url.endsWith('/p1'))).toBe(true);
+    expect(queue.getJobs()[0].attempt).toBe(1);
+    expect(JSON.parse(storage.get('pending-predictions')!)).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+import axios, { AxiosError } from 'axios';
+import { CancelledError } from './segmentation/protocol';
+import { delay } from './providers/predictionJobs';
+import type { ProviderId } from './providers/types';
+import { DEFAULT_RPM, RateLimiter, rateLimitDelay, rateLimitKey, type RateLimitPolicy } from './rateLimiter';
+
+// 'rate-limited' jobs hold their provider slot but wait for the rate limit before calling out
+export type JobStatus = 'queued' | 'rate-limited' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface RetryPolicy {
+  // Total tries, including the first
+  attempts: number;
+  // Wait before the first retry; doubles for every later one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: (error: unknown) => boolean;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  onProgress: (progress: number | null, message?: string) => void;
+  // 1 for the first try
+  attempt: number;
+}
+
+export interface JobSpec<T> {
+  label: string;
+  // Jobs are limited per provider, so a slow provider does not hold up the others
+  provider: ProviderId;
+  run: (context: JobContext) => Promise<T>;
+  retry?: Partial<RetryPolicy>;
+}
+
+// Read-only view of a job for the UI
+export interface JobSnapshot {
+  id: number;
+  label: string;
+  provider: ProviderId;
+  status: JobStatus;
+  progress: number | null;
+  message?: string;
+  attempt: number;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface JobEntry {
+  snapshot: JobSnapshot;
+  spec: JobSpec<unknown>;
+  retry: RetryPolicy;
+  abort: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Network failures, rate limits and server errors are worth another try; bad input is not
+export const isTransientError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error) || error.code === AxiosError.ERR_CANCELED) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+const DEFAULT_RETRY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  retryOn: isTransientError,
+};
+
+// Jobs running at once per provider; in-browser work shares the single segmentation worker
+const DEFAULT_CONCURRENCY: Record<ProviderId, number> = {
+  replicate: 2,
+  deepinfra: 2,
+  local: 1,
+  browser: 1,
+};
+
+// Provider 429s wait out Retry-After without using up retry attempts, up to this many times per job
+const MAX_RATE_LIMIT_WAITS = 10;
+
+const isFinished = (status: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+export const isActiveJob = (job: JobSnapshot) => !isFinished(job.status);
+
+export class JobQueue {
+  private entries: JobEntry[] = [];
+  private snapshots: JobSnapshot[] = [];
+  private listeners = new Set<(jobs: JobSnapshot[]) => void>();
+  private concurrency: Record<ProviderId, number>;
+  private limiter: RateLimiter;
+  private policy: RateLimitPolicy = { organizationId: null, rpm: null };
+  private nextId = 1;
+
+  constructor(concurrency: Partial<Record<ProviderId, number>> = {}, limiter = new RateLimiter()) {
+    this.concurrency = { ...DEFAULT_CONCURRENCY, ...concurrency };
+    this.limiter = limiter;
+  }
+
+  // The organization's limit applies to hosted providers; in-browser and self-hosted jobs stay unthrottled
+  setRateLimitPolicy(policy: RateLimitPolicy) {
+    this.policy = policy;
+  }
+
+  // Queues the job; result settles when it finishes, with CancelledError if it is cancelled
+  enqueue<T>(spec: JobSpec<T>): { id: number; result: Promise<T> } {
+    const id = this.nextId++;
+    const result = new Promise<T>((resolve, reject) => {
+      this.entries.push({
+        snapshot: {
+          id,
+          label: spec.label,
+          provider: spec.provider,
+          status: 'queued',
+          progress: null,
+          attempt: 0,
+          createdAt: Date.now(),
+        },
+        spec: spec as JobSpec<unknown>,
+        retry: { ...DEFAULT_RETRY, ...spec.retry },
+        abort: new AbortController(),
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+
+    this.emit();
+    this.pump();
+    return { id, result };
+  }
+
+  cancel(id: number) {
+    const entry = this.entries.find(e => e.snapshot.id === id);
+    if (!entry || isFinished(entry.snapshot.status)) return;
+
+    if (entry.snapshot.status === 'queued') {
+      this.finish(entry, { status: 'cancelled' });
+      entry.reject(new CancelledError('Job cancelled'));
+    } else {
+      entry.abort.abort();
+    }
+  }
+
+  clearFinished() {
+    this.entries = this.entries.filter(e => !isFinished(e.snapshot.status));
+    this.emit();
+  }
+
+  getJobs = (): JobSnapshot[] => this.snapshots;
+
+  subscribe = (listener: (jobs: JobSnapshot[]) => void): (() => void) => {
+    this.listeners.add(listener);
+    listener(this.snapshots);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Starts queued jobs, oldest first, while their provider has a free slot
+  private pump() {
+    for (const entry of this.entries) {
+      if (entry.snapshot.status !== 'queued') continue;
+      const provider = entry.spec.provider;
+      const active = this.entries.filter(e =>
+        e.spec.provider === provider && e.snapshot.status !== 'queued' && !isFinished(e.snapshot.status)
+      ).length;
+      if (active < this.concurrency[provider]) {
+        void this.start(entry);
+      }
+    }
+  }
+
+  private async start(entry: JobEntry) {
+    const { spec, retry, abort } = entry;
+    const key = rateLimitKey(spec.provider, this.policy.organizationId);
+    let rateLimitWaits = 0;
+    this.update(entry, { status: 'running', startedAt: Date.now() });
+
+    for (let attempt = 1; ; ) {
+      try {
+        await this.throttle(entry, key);
+        this.update(entry, { status: 'running', attempt, progress: null, message: undefined });
+        const value = await spec.run({
+          signal: abort.signal,
+          attempt,
+          onProgress: (progress, message) => this.update(entry, { progress, message: message ?? entry.snapshot.message }),
+        });
+        this.finish(entry, { status: 'succeeded', progress: 1 });
+        entry.resolve(value);
+        break;
+      } catch (error) {
+        if (error instanceof CancelledError || abort.signal.aborted) {
+          this.finish(entry, { status: 'cancelled' });
+          entry.reject(error instanceof CancelledError ? error : new CancelledError('Job cancelled'));
+          break;
+        }
+
+        const wait = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+        const retryAfter = rateLimitDelay(error);
+        if (retryAfter !== null && rateLimitWaits < MAX_RATE_LIMIT_WAITS) {
+          // Every job for the key backs off, and throttle holds this one until the provider is ready again
+          rateLimitWaits++;
+          this.limiter.penalize(key, retryAfter || wait);
+          continue;
+        }
+
+        if (attempt >= retry.attempts || !retry.retryOn(error)) {
+          this.finish(entry, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+          entry.reject(error);
+          break;
+        }
+
+        this.update(entry, {
+          status: 'retrying',
+          message: `Retrying in ${Math.ceil(wait / 1000)}s (attempt ${attempt + 1} of ${retry.attempts})`,
+        });
+        attempt++;
+        try {
+          await delay(wait, abort.signal);
+        } catch (cancelled) {
+          this.finish(entry, { status: 'cancelled' });
+          entry.reject(cancelled);
+          break;
+        }
+      }
+    }
+
+    this.pump();
+  }
+
+  // Waits while the provider's rate limit for the organization is spent; rejects with CancelledError if cancelled meanwhile
+  private async throttle(entry: JobEntry, key: string) {
+    const provider = entry.spec.provider;
+    const rpm = Number.isFinite(DEFAULT_RPM[provider]) ? this.policy.rpm ?? DEFAULT_RPM[provider] : Infinity;
+
+    for (let wait = this.limiter.reserve(key, rpm); wait > 0; wait = this.limiter.reserve(key, rpm)) {
+      this.update(entry, {
+        status: 'rate-limited',
+        message: `Queued due to rate limit, starting in ${Math.ceil(wait / 1000)}s`,
+      });
+      await delay(wait, entry.abort.signal);
+    }
+  }
+
+  private finish(entry: JobEntry, patch: Partial<JobSnapshot>) {
+    this.update(entry, { ...patch, finishedAt: Date.now() });
+  }
+
+  private update(entry: JobEntry, patch: Partial<JobSnapshot>) {
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshots = this.entries.map(e => e.snapshot);
+    this.listeners.forEach(listener => listener(this.snapshots));
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,99 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CancelledError } from '../segmentation/protocol';
+import { LocalProvider } from './localProvider';
+
+// Runs the provider against scripts/mock-ai-server.mjs, which speaks the same protocol as a real server
+const PORT = 18000 + (process.pid % 1000);
+let server: ChildProcess;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ['scripts/mock-ai-server.mjs'], {
+    env: { ...process.env, PORT: String(PORT) },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve();
+    });
+    server.on('exit', code => reject(new Error(`Mock server exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  server?.kill();
+});
+
+// Width and height from the IHDR chunk of a PNG data URL
+const pngSize = (dataUrl: string) => {
+  expect(dataUrl).toMatch(/^data:image\/png;base64,/);
+  const bytes = Buffer.from(dataUrl.split(',')[1], 'base64');
+  return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+};
+
+const provider = (signal?: AbortSignal) => new LocalProvider(`http://127.0.0.1:${PORT}/`, signal);
+
+describe('LocalProvider', () => {
+  let image: string;
+  let mask: string;
+
+  it('generates an image of the requested size', async () => {
+    image = await provider().generate({
+      model: 'diffusion',
+      prompt: 'a red fox',
+      negative_prompt: '',
+      width: 8,
+      height: 6,
+      steps: 20,
+      guidance: 7.5,
+      seed: 42,
+    });
+    expect(pngSize(image)).toEqual({ width: 8, height: 6 });
+  });
+
+  it('segments the image into a mask of the same size', async () => {
+    mask = await provider().segment({ model: 'segmenter', image, box: { x: 2, y: 1, width: 4, height: 4 } });
+    expect(pngSize(mask)).toEqual({ width: 8, height: 6 });
+  });
+
+  it('inpaints the masked region', async () => {
+    const result = await provider().inpaint({
+      model: 'diffusion',
+      image,
+      mask,
+      prompt: 'grass',
+      negative_prompt: '',
+      strength: 1,
+      steps: 20,
+      guidance: 7.5,
+    });
+    expect(pngSize(result)).toEqual({ width: 8, height: 6 });
+    expect(result).not.toBe(image);
+  });
+
+  it('enhances by the requested scale', async () => {
+    const result = await provider().enhance({ model: 'upscaler', image, scale: 2, face_enhance: false });
+    expect(pngSize(result)).toEqual({ width: 16, height: 12 });
+  });
+
+  it("surfaces the server's error message", async () => {
+    const larger = await provider().enhance({ model: 'upscaler', image, scale: 2, face_enhance: false });
+    await expect(provider().inpaint({
+      model: 'diffusion',
+      image: larger,
+      mask,
+      prompt: '',
+      negative_prompt: '',
+      strength: 1,
+      steps: 20,
+      guidance: 7.5,
+    })).rejects.toThrow('Local server inpaint failed: Image and mask sizes differ');
+  });
+
+  it('rejects with CancelledError when aborted', async () => {
+    const abort = new AbortController();
+    const request = provider(abort.signal).segment({ model: 'segmenter', image });
+    abort.abort();
+    await expect(request).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { CancelledError } from '../segmentation/protocol';
+
+// JSON protocol spoken by self-hosted model servers (see scripts/mock-ai-server.mjs for a reference server).
+// Every request is a POST of JSON to `<baseUrl>/v1/<operation>`; images travel as data URLs or http(s) URLs.
+// Failures answer with a non-2xx status and `{ "error": "message" }`.
+
+export interface LocalGenerateRequest {
+  model: string;
+  prompt: string;
+  negative_prompt: string;
+  width: number;
+  height: number;
+  steps: number;
+  guidance: number;
+  // Omitted for a random seed
+  seed?: number;
+}
+
+// The mask is white where the image should change
+export interface LocalInpaintRequest {
+  model: string;
+  image: string;
+  mask: string;
+  prompt: string;
+  negative_prompt: string;
+  strength: number;
+  steps: number;
+  guidance: number;
+  seed?: number;
+}
+
+export interface LocalEnhanceRequest {
+  model: string;
+  image: string;
+  scale: number;
+  face_enhance: boolean;
+}
+
+// Prompts are in image pixels; label 1 marks foreground points and 0 background points.
+// Without points or box the server segments the main subject.
+export interface LocalSegmentRequest {
+  model: string;
+  image: string;
+  points?: { x: number; y: number; label: 0 | 1 }[];
+  box?: { x: number; y: number; width: number; height: number };
+}
+
+// generate, inpaint and enhance answer with an image
+export interface LocalImageResponse {
+  image: string;
+}
+
+// segment answers with a grayscale mask of the input size, white = object
+export interface LocalSegmentResponse {
+  mask: string;
+}
+
+export type LocalSegmentPrompt = Omit<LocalSegmentRequest, 'model' | 'image'>;
+
+export class LocalProvider {
+  private baseUrl: string;
+  private signal?: AbortSignal;
+
+  constructor(baseUrl: string, signal?: AbortSignal) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.signal = signal;
+  }
+
+  async generate(request: LocalGenerateRequest): Promise<string> {
+    return (await this.post<LocalImageResponse>('generate', request)).image;
+  }
+
+  async inpaint(request: LocalInpaintRequest): Promise<string> {
+    return (await this.post<LocalImageResponse>('inpaint', request)).image;
+  }
+
+  async enhance(request: LocalEnhanceRequest): Promise<string> {
+    return (await this.post<LocalImageResponse>('enhance', request)).image;
+  }
+
+  async segment(request: LocalSegmentRequest): Promise<string> {
+    return (await this.post<LocalSegmentResponse>('segment', request)).mask;
+  }
+
+  private async post<T>(operation: string, body: object): Promise<T> {
+    try {
+      const response = await axios.post<T>(`${this.baseUrl}/v1/${operation}`, body, {
+        headers: { 'Content-Type': 'application/json' },
+        signal: this.signal
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        throw new CancelledError('Prediction cancelled');
+      }
+      // Surface the server's own message rather than axios' generic status text
+      if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+        throw new Error(`Local server ${operation} failed: ${error.response.data.error}`);
+      }
+      throw error;
+    }
+  }
+}
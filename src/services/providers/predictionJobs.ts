@@ -0,0 +1,205 @@
+import axios from 'axios';
+import { CancelledError } from '../segmentation/protocol';
+import { rateLimitDelay } from '../rateLimiter';
+import type { Capability } from './types';
+
+const REPLICATE_API = 'https://api.replicate.com/v1/predictions';
+const STORAGE_KEY = 'pending-predictions';
+
+// A prediction that was started but whose result has not been collected yet
+export interface PendingPrediction {
+  id: string;
+  modelId: string;
+  capability: Capability;
+  // Layer name for the result when it is collected after a reload
+  label: string;
+  createdAt: number;
+  // Key of the tracked call that started it, so a resumed result is recorded against that call
+  idempotencyKey?: string;
+}
+
+export interface PredictionRunOptions {
+  signal?: AbortSignal;
+  // progress is null while the model has not reported any
+  onProgress?: (progress: number | null, message?: string) => void;
+  label?: string;
+  // Aborting only stops polling; the prediction keeps running and stays stored for a later resume
+  detachOnAbort?: boolean;
+  // Set by AIService for tracked calls
+  idempotencyKey?: string;
+}
+
+export interface BackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  factor: number;
+  // Polling gives up after this long; the prediction stays stored and is resumed on the next load
+  timeout: number;
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelay: 500,
+  maxDelay: 8000,
+  factor: 1.5,
+  timeout: 10 * 60 * 1000,
+};
+
+// Pending predictions survive reloads in localStorage
+export const pendingPredictions = {
+  list(): PendingPrediction[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  },
+
+  add(prediction: PendingPrediction) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.list(), prediction]));
+  },
+
+  remove(id: string) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.list().filter(p => p.id !== id)));
+  },
+};
+
+// Diffusion models print tqdm bars ("45%|████▌     | 23/50"); the last percentage is the current progress
+export const parseLogProgress = (logs: string): number | null => {
+  const matches = logs.match(/(\d{1,3})%\|/g);
+  if (!matches) return null;
+  return Math.min(1, parseInt(matches[matches.length - 1]) / 100);
+};
+
+const lastLogLine = (logs: string): string | undefined =>
+  logs.split('\n').map(line => line.trim()).filter(Boolean).pop();
+
+// Resolves after ms, or rejects with CancelledError as soon as the signal aborts
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError('Prediction cancelled'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Prediction cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Starts Replicate predictions and polls them to completion with exponential backoff.
+// Aborting the signal also cancels the prediction on Replicate so it stops billing.
+export class PredictionJobManager {
+  private token: string;
+  private backoff: BackoffOptions;
+
+  constructor(token: string, backoff: Partial<BackoffOptions> = {}) {
+    this.token = token;
+    this.backoff = { ...DEFAULT_BACKOFF, ...backoff };
+  }
+
+  async run(
+    version: string,
+    input: Record<string, unknown>,
+    job: Pick<PendingPrediction, 'modelId' | 'capability'>,
+    options: PredictionRunOptions = {}
+  ): Promise<string> {
+    if (options.signal?.aborted) throw new CancelledError('Prediction cancelled');
+
+    let id: string;
+    try {
+      const response = await axios.post(
+        REPLICATE_API,
+        { version, input },
+        { headers: this.headers(), signal: options.signal }
+      );
+      id = response.data.id;
+    } catch (error) {
+      if (axios.isCancel(error)) throw new CancelledError('Prediction cancelled');
+      throw error;
+    }
+
+    pendingPredictions.add({
+      id,
+      ...job,
+      label: options.label ?? 'AI Result',
+      createdAt: Date.now(),
+      idempotencyKey: options.idempotencyKey,
+    });
+    return this.wait(id, options);
+  }
+
+  // Polls until the prediction finishes; also used to collect predictions left over from a closed tab
+  async wait(id: string, { signal, onProgress, detachOnAbort }: PredictionRunOptions = {}): Promise<string> {
+    const started = Date.now();
+    let interval = this.backoff.initialDelay;
+
+    try {
+      while (Date.now() - started < this.backoff.timeout) {
+        const response = await this.poll(id, interval, signal);
+        if (!response) {
+          interval = Math.min(this.backoff.maxDelay, interval * this.backoff.factor);
+          continue;
+        }
+        const { status, output, error, logs = '' } = response.data;
+
+        if (status === 'succeeded') {
+          pendingPredictions.remove(id);
+          onProgress?.(1);
+          return Array.isArray(output) ? output[0] : output;
+        }
+        if (status === 'failed' || status === 'canceled') {
+          pendingPredictions.remove(id);
+          throw new Error(status === 'failed' ? `Generation failed: ${error}` : 'Prediction was cancelled');
+        }
+
+        onProgress?.(parseLogProgress(logs), lastLogLine(logs) ?? (status === 'starting' ? 'Starting model...' : undefined));
+        await delay(interval, signal);
+        interval = Math.min(this.backoff.maxDelay, interval * this.backoff.factor);
+      }
+    } catch (error) {
+      if (signal?.aborted || axios.isCancel(error)) {
+        if (!detachOnAbort) await this.cancel(id);
+        throw new CancelledError('Prediction cancelled');
+      }
+      throw error;
+    }
+
+    // Nobody is waiting for the result any more, so stop paying for it and drop it from the resume list
+    await this.cancel(id);
+    throw new Error('Generation timeout');
+  }
+
+  async cancel(id: string) {
+    pendingPredictions.remove(id);
+    try {
+      await axios.post(`${REPLICATE_API}/${id}/cancel`, {}, { headers: this.headers() });
+    } catch (error) {
+      // The prediction may already have finished; nothing is left to stop
+      console.warn(`Failed to cancel prediction ${id}:`, error);
+    }
+  }
+
+  // The prediction already exists, so a failed poll is retried here rather than thrown to the job queue,
+  // which would start (and bill) a new one. A 429 waits out Retry-After; network and server errors back off.
+  private async poll(id: string, interval: number, signal?: AbortSignal) {
+    try {
+      return await axios.get(`${REPLICATE_API}/${id}`, { headers: this.headers(), signal });
+    } catch (error) {
+      if (axios.isCancel(error) || !axios.isAxiosError(error)) throw error;
+      const retryAfter = rateLimitDelay(error);
+      const status = error.response?.status;
+      if (retryAfter === null && status !== undefined && status < 500) throw error;
+      await delay(Math.max(retryAfter ?? 0, interval), signal);
+      return null;
+    }
+  }
+
+  private headers() {
+    return {
+      'Authorization': `Token ${this.token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { Capability, ProviderId } from './types';
+
+export type PredictionStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// One provider call, keyed by a hash of its inputs
+export interface PredictionRecord {
+  idempotencyKey: string;
+  provider: ProviderId;
+  modelId: string;
+  // Provider-side model name or version the call ran against
+  modelVersion: string;
+  capability: Capability;
+  status: PredictionStatus;
+  output?: string;
+  latencyMs?: number;
+  costCents?: number;
+  // ISO timestamps
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Where predictions are recorded; save replaces any record with the same idempotency key
+export interface PredictionStore {
+  find(idempotencyKey: string): Promise<PredictionRecord | null>;
+  save(record: PredictionRecord): Promise<void>;
+  // Records created at or after the given time, oldest first
+  list(since?: Date): Promise<PredictionRecord[]>;
+}
+
+const DB_NAME = 'ai-image-editor';
+const DB_STORE = 'predictions';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Browser-local store, used when no backend is configured
+export class IndexedDBPredictionStore implements PredictionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async find(idempotencyKey: string): Promise<PredictionRecord | null> {
+    const store = await this.store('readonly');
+    return (await request<PredictionRecord | undefined>(store.get(idempotencyKey))) ?? null;
+  }
+
+  async save(record: PredictionRecord): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.put(record));
+  }
+
+  async list(since?: Date): Promise<PredictionRecord[]> {
+    const store = await this.store('readonly');
+    const range = since ? IDBKeyRange.lowerBound(since.toISOString()) : undefined;
+    return request<PredictionRecord[]>(store.index('createdAt').getAll(range));
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(DB_STORE, { keyPath: 'idempotencyKey' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      this.db = request(open);
+    }
+    return (await this.db).transaction(DB_STORE, mode).objectStore(DB_STORE);
+  }
+}
+
+type PredictionRow = {
+  idempotency_key: string;
+  provider: string;
+  model_version: string;
+  status: string | null;
+  latency_ms: number | null;
+  cost_cents: number | null;
+  metadata: Json | null;
+  created_at: string | null;
+  completed_at: string | null;
+};
+
+// The table has no columns for these, so they travel in metadata
+interface PredictionMetadata {
+  modelId: string;
+  capability: Capability;
+  output?: string;
+}
+
+const fromRow = (row: PredictionRow): PredictionRecord => {
+  const metadata = (row.metadata ?? {}) as unknown as Partial<PredictionMetadata>;
+  return {
+    idempotencyKey: row.idempotency_key,
+    provider: row.provider as ProviderId,
+    modelId: metadata.modelId ?? row.model_version,
+    modelVersion: row.model_version,
+    capability: metadata.capability ?? 'generate',
+    status: (row.status ?? 'running') as PredictionStatus,
+    output: metadata.output,
+    latencyMs: row.latency_ms ?? undefined,
+    costCents: row.cost_cents ?? undefined,
+    createdAt: row.created_at ?? new Date(0).toISOString(),
+    completedAt: row.completed_at ?? undefined,
+  };
+};
+
+// Shared `predictions` table, so usage is tracked across devices
+export class SupabasePredictionStore implements PredictionStore {
+  async find(idempotencyKey: string): Promise<PredictionRecord | null> {
+    const { data, error } = await supabase
+      .from('predictions')
+      .select('*')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }
+
+  async save(record: PredictionRecord): Promise<void> {
+    const metadata: PredictionMetadata = {
+      modelId: record.modelId,
+      capability: record.capability,
+      // Inline data URLs can be megabytes; only links are worth keeping in the shared table
+      output: record.output?.startsWith('data:') ? undefined : record.output,
+    };
+    const row = {
+      idempotency_key: record.idempotencyKey,
+      provider: record.provider,
+      model_version: record.modelVersion,
+      status: record.status,
+      latency_ms: record.latencyMs ?? null,
+      cost_cents: record.costCents ?? null,
+      metadata: metadata as unknown as Json,
+      created_at: record.createdAt,
+      completed_at: record.completedAt ?? null,
+    };
+
+    const { data: existing, error: findError } = await supabase
+      .from('predictions')
+      .select('id')
+      .eq('idempotency_key', record.idempotencyKey)
+      .maybeSingle();
+    if (findError) throw findError;
+
+    const { error } = existing
+      ? await supabase.from('predictions').update(row).eq('id', existing.id)
+      : await supabase.from('predictions').insert(row);
+    if (error) throw error;
+  }
+
+  async list(since?: Date): Promise<PredictionRecord[]> {
+    let query = supabase.from('predictions').select('*').order('created_at', { ascending: true });
+    if (since) {
+      query = query.gte('created_at', since.toISOString());
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+    return data.map(fromRow);
+  }
+}
+
+// VITE_PREDICTION_STORE=supabase records into the shared table; anything else stays in the browser
+export const createPredictionStore = (): PredictionStore =>
+  import.meta.env.VITE_PREDICTION_STORE === 'supabase'
+    ? new SupabasePredictionStore()
+    : new IndexedDBPredictionStore();
@@ -0,0 +1,185 @@
+import { DEFAULT_BACKGROUND_MODEL_CONFIG, DEFAULT_SAM_CONFIG } from '../segmentation/types';
+import type { APIKeys, Capability, ModelDefinition, ParameterSchema, ProviderDefinition, ProviderId } from './types';
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  replicate: { id: 'replicate', name: 'Replicate', apiKey: 'replicate' },
+  deepinfra: { id: 'deepinfra', name: 'DeepInfra', apiKey: 'deepinfra' },
+  local: { id: 'local', name: 'Self-hosted', apiKey: 'localUrl' },
+  browser: { id: 'browser', name: 'In-browser' },
+};
+
+const DIMENSIONS = [512, 768, 1024, 1536];
+
+const diffusionParameters = (maxSide: number, steps = { min: 10, max: 100, default: 30 }): ParameterSchema => ({
+  steps: { type: 'number', min: steps.min, max: steps.max, step: 5, default: steps.default },
+  guidance: { type: 'number', min: 1, max: 20, step: 0.5, default: 7.5 },
+  width: { type: 'choice', options: DIMENSIONS.filter(d => d <= maxSide), default: Math.min(1024, maxSide) },
+  height: { type: 'choice', options: DIMENSIONS.filter(d => d <= maxSide), default: Math.min(1024, maxSide) },
+  strength: { type: 'number', min: 0.1, max: 1, step: 0.05, default: 0.8 },
+});
+
+export const MODELS: ModelDefinition[] = [
+  {
+    id: 'sdxl-1.0',
+    name: 'SDXL 1.0',
+    provider: 'replicate',
+    providerModel: 'stability-ai/sdxl:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b',
+    capabilities: ['generate'],
+    parameters: diffusionParameters(1536),
+    limits: { maxWidth: 1536, maxHeight: 1536, sizeMultiple: 8 },
+    costCents: 0.5,
+  },
+  {
+    id: 'flux-dev',
+    name: 'Flux Dev',
+    provider: 'replicate',
+    providerModel: 'black-forest-labs/flux-dev:5b3e8162-e726-4add-bfde-053dac7dc5a4',
+    capabilities: ['generate'],
+    parameters: diffusionParameters(1536, { min: 10, max: 50, default: 28 }),
+    limits: { maxWidth: 1536, maxHeight: 1536, sizeMultiple: 16 },
+    costCents: 2.5,
+  },
+  {
+    id: 'kandinsky-3',
+    name: 'Kandinsky 3',
+    provider: 'deepinfra',
+    providerModel: 'kandinsky-community/kandinsky-3',
+    capabilities: ['generate'],
+    parameters: diffusionParameters(1024),
+    limits: { maxWidth: 1024, maxHeight: 1024, sizeMultiple: 64 },
+    costCents: 0.3,
+  },
+  {
+    id: 'sdxl-turbo',
+    name: 'SDXL Turbo',
+    provider: 'deepinfra',
+    providerModel: 'stabilityai/stable-diffusion-xl-base-1.0',
+    capabilities: ['generate'],
+    parameters: diffusionParameters(1024),
+    limits: { maxWidth: 1024, maxHeight: 1024, sizeMultiple: 8 },
+    costCents: 0.2,
+  },
+  {
+    id: 'sd-inpainting',
+    name: 'Stable Diffusion Inpainting',
+    provider: 'replicate',
+    providerModel: 'stability-ai/stable-diffusion-inpainting:95b7223104132402a9ae91cc677285bc5eb997834bd2349fa486f53910fd68b3',
+    capabilities: ['inpaint'],
+    parameters: diffusionParameters(1024),
+    limits: { maxWidth: 1024, maxHeight: 1024, sizeMultiple: 8 },
+    costCents: 0.4,
+  },
+  {
+    id: 'sd2-inpainting',
+    name: 'Stable Diffusion 2 Inpainting',
+    provider: 'deepinfra',
+    providerModel: 'stabilityai/stable-diffusion-2-inpainting',
+    capabilities: ['inpaint'],
+    parameters: diffusionParameters(1024),
+    limits: { maxWidth: 1024, maxHeight: 1024, sizeMultiple: 8 },
+    costCents: 0.3,
+  },
+  {
+    id: 'real-esrgan',
+    name: 'Real-ESRGAN',
+    provider: 'replicate',
+    providerModel: 'nightmareai/real-esrgan:42fed1c4974146d4d2414e2be2c5277c7fcf05fcc3a73abf41610695738c1d7b',
+    capabilities: ['enhance'],
+    parameters: {
+      scale: { type: 'choice', options: [2, 4], default: 2 },
+      faceEnhance: { type: 'boolean', default: false },
+    },
+    costCents: 0.3,
+  },
+  {
+    id: 'local-diffusion',
+    name: 'Self-hosted Diffusion',
+    provider: 'local',
+    providerModel: 'diffusion',
+    capabilities: ['generate', 'inpaint'],
+    parameters: diffusionParameters(1536),
+    limits: { maxWidth: 1536, maxHeight: 1536, sizeMultiple: 8 },
+  },
+  {
+    id: 'local-upscaler',
+    name: 'Self-hosted Upscaler',
+    provider: 'local',
+    providerModel: 'upscaler',
+    capabilities: ['enhance'],
+    parameters: {
+      scale: { type: 'choice', options: [2, 4], default: 2 },
+      faceEnhance: { type: 'boolean', default: false },
+    },
+  },
+  {
+    id: 'local-segmenter',
+    name: 'Self-hosted Segmentation',
+    provider: 'local',
+    providerModel: 'segmenter',
+    capabilities: ['segment'],
+    parameters: {},
+  },
+  {
+    id: 'sam-vit-base',
+    name: 'Segment Anything',
+    provider: 'browser',
+    providerModel: DEFAULT_SAM_CONFIG.modelId,
+    capabilities: ['segment'],
+    parameters: {},
+  },
+  {
+    id: 'rmbg',
+    name: 'Background Removal',
+    provider: 'browser',
+    providerModel: DEFAULT_BACKGROUND_MODEL_CONFIG.modelId,
+    capabilities: ['segment'],
+    parameters: {},
+  },
+];
+
+export const getModel = (id: string): ModelDefinition | undefined => MODELS.find(m => m.id === id);
+
+// The model with the given id, checked to support the capability
+export const requireModel = (id: string, capability: Capability): ModelDefinition => {
+  const model = getModel(id);
+  if (!model) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+  if (!model.capabilities.includes(capability)) {
+    throw new Error(`${model.name} does not support ${capability}`);
+  }
+  return model;
+};
+
+export const modelsFor = (capability: Capability): ModelDefinition[] =>
+  MODELS.filter(m => m.capabilities.includes(capability));
+
+export const hasProviderKey = (provider: ProviderId, apiKeys: APIKeys): boolean => {
+  const { apiKey } = PROVIDERS[provider];
+  return !apiKey || Boolean(apiKeys[apiKey]);
+};
+
+// First model for the capability whose provider is usable with the configured keys
+export const defaultModelFor = (capability: Capability, apiKeys: APIKeys): ModelDefinition | undefined =>
+  modelsFor(capability).find(m => hasProviderKey(m.provider, apiKeys));
+
+export const canUse = (capability: Capability, apiKeys: APIKeys): boolean =>
+  defaultModelFor(capability, apiKeys) !== undefined;
+
+// Moves each setting the model declares into its range, or onto the nearest of its options
+export const fitToModel = <T extends object>(settings: T, model: ModelDefinition): T => {
+  const fitted = { ...settings } as Record<string, unknown>;
+  for (const [key, spec] of Object.entries(model.parameters)) {
+    const value = fitted[key];
+    if (!spec || typeof value !== 'number') continue;
+
+    if (spec.type === 'number') {
+      fitted[key] = Math.min(spec.max, Math.max(spec.min, value));
+    } else if (spec.type === 'choice' && !spec.options.includes(value)) {
+      fitted[key] = spec.options.reduce((best, option) =>
+        Math.abs(option - value) < Math.abs(best - value) ? option : best
+      );
+    }
+  }
+  return fitted as T;
+};
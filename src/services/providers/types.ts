@@ -0,0 +1,63 @@
+export interface APIKeys {
+  replicate?: string;
+  deepinfra?: string;
+  // Base URL of a self-hosted server speaking the local provider protocol
+  localUrl?: string;
+}
+
+// 'browser' models run in the segmentation worker and need no key
+export type ProviderId = 'replicate' | 'deepinfra' | 'local' | 'browser';
+
+export type Capability = 'generate' | 'inpaint' | 'enhance' | 'segment';
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  name: string;
+  // Entry in APIKeys the provider needs configured; absent for providers that need none
+  apiKey?: keyof APIKeys;
+}
+
+export interface NumberParameter {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface ChoiceParameter {
+  type: 'choice';
+  options: number[];
+  default: number;
+}
+
+export interface BooleanParameter {
+  type: 'boolean';
+  default: boolean;
+}
+
+export type ParameterSpec = NumberParameter | ChoiceParameter | BooleanParameter;
+
+// Settings a model accepts, keyed by the GenerationSettings / EnhanceSettings field they control
+export type ParameterSchema = Partial<Record<string, ParameterSpec>>;
+
+export interface ModelLimits {
+  maxWidth: number;
+  maxHeight: number;
+  // Output sides must be multiples of this
+  sizeMultiple: number;
+}
+
+export interface ModelDefinition {
+  // Id used in settings and stored with predictions
+  id: string;
+  name: string;
+  provider: ProviderId;
+  // Replicate "owner/model:version", DeepInfra model path, local server model name or the transformers.js model id
+  providerModel: string;
+  capabilities: Capability[];
+  parameters: ParameterSchema;
+  limits?: ModelLimits;
+  // Estimated price of one run in US cents, recorded with each prediction
+  costCents?: number;
+}
@@ -0,0 +1,134 @@
+import { AxiosError, type AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseRetryAfter, RateLimiter, rateLimitDelay, rateLimitKey } from './rateLimiter';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    headers,
+    data: {},
+  } as AxiosResponse);
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('lets a full minute of requests burst, then spreads them evenly', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 60; i++) expect(limiter.reserve('a', 60)).toBe(0);
+
+    expect(limiter.reserve('a', 60)).toBeCloseTo(1000);
+    vi.advanceTimersByTime(400);
+    expect(limiter.reserve('a', 60)).toBeCloseTo(600);
+    vi.advanceTimersByTime(600);
+    expect(limiter.reserve('a', 60)).toBe(0);
+    expect(limiter.reserve('a', 60)).toBeCloseTo(1000);
+  });
+
+  it('refills up to capacity only', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 2; i++) limiter.reserve('a', 2);
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(limiter.reserve('a', 2)).toBe(0);
+    expect(limiter.reserve('a', 2)).toBe(0);
+    expect(limiter.reserve('a', 2)).toBeCloseTo(30000);
+  });
+
+  it('keeps separate buckets per key', () => {
+    const limiter = new RateLimiter();
+    limiter.reserve('org:replicate', 1);
+
+    expect(limiter.reserve('org:replicate', 1)).toBeGreaterThan(0);
+    expect(limiter.reserve('org:deepinfra', 1)).toBe(0);
+  });
+
+  it('starts a fresh bucket when the limit changes', () => {
+    const limiter = new RateLimiter();
+    limiter.reserve('a', 1);
+
+    expect(limiter.reserve('a', 1)).toBeGreaterThan(0);
+    expect(limiter.reserve('a', 10)).toBe(0);
+  });
+
+  it('never throttles an unlimited key', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 1000; i++) expect(limiter.reserve('local', Infinity)).toBe(0);
+  });
+
+  it('blocks a key until Retry-After has passed', () => {
+    const limiter = new RateLimiter();
+    limiter.penalize('a', 5000);
+
+    expect(limiter.reserve('a', 60)).toBe(5000);
+    expect(limiter.reserve('a', Infinity)).toBe(5000);
+    expect(limiter.reserve('b', 60)).toBe(0);
+    vi.advanceTimersByTime(5000);
+    expect(limiter.reserve('a', 60)).toBe(0);
+  });
+
+  it('keeps the longer of overlapping penalties', () => {
+    const limiter = new RateLimiter();
+    limiter.penalize('a', 5000);
+    limiter.penalize('a', 1000);
+
+    expect(limiter.reserve('a', 60)).toBe(5000);
+  });
+
+  it('does not spend tokens while blocked', () => {
+    const limiter = new RateLimiter();
+    limiter.reserve('a', 2);
+    limiter.penalize('a', 1000);
+    limiter.reserve('a', 2);
+
+    vi.advanceTimersByTime(1000);
+    expect(limiter.reserve('a', 2)).toBe(0);
+  });
+});
+
+describe('rateLimitKey', () => {
+  it('scopes limits to the organization, or the user without one', () => {
+    expect(rateLimitKey('replicate', 'org-1')).toBe('org-1:replicate');
+    expect(rateLimitKey('replicate', null)).toBe('personal:replicate');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Thu, 01 Jan 2026 12:00:10 GMT')).toBe(10000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 11:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and malformed headers', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('rateLimitDelay', () => {
+  it('returns the Retry-After of a 429, or 0 without one', () => {
+    expect(rateLimitDelay(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(rateLimitDelay(httpError(429))).toBe(0);
+  });
+
+  it('returns null for anything else', () => {
+    expect(rateLimitDelay(httpError(503, { 'retry-after': '2' }))).toBeNull();
+    expect(rateLimitDelay(new AxiosError('Network Error', 'ERR_NETWORK'))).toBeNull();
+    expect(rateLimitDelay(new Error('boom'))).toBeNull();
+  });
+});
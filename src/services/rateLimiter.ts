@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { supabase } from '@/integrations/supabase/client';
+import type { ProviderId } from './providers/types';
+
+// Requests per minute allowed for a provider and organization; null leaves only the provider default
+export interface RateLimitPolicy {
+  organizationId: string | null;
+  rpm: number | null;
+}
+
+// Used when the organization sets no limit; in-browser and self-hosted models are not throttled
+export const DEFAULT_RPM: Record<ProviderId, number> = {
+  replicate: 60,
+  deepinfra: 60,
+  local: Infinity,
+  browser: Infinity,
+};
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+// Token bucket per key: a full minute's worth of requests may burst, then they are spread evenly
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  // Set from a provider's Retry-After; nothing goes out for the key before then
+  private blockedUntil = new Map<string, number>();
+
+  // Takes a token and returns 0 when a request may go out now, otherwise how long to wait before asking again
+  reserve(key: string, rpm: number): number {
+    const now = Date.now();
+    const blocked = (this.blockedUntil.get(key) ?? 0) - now;
+    if (blocked > 0) return blocked;
+    if (!Number.isFinite(rpm)) return 0;
+
+    const bucket = this.bucket(key, rpm, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return (1 - bucket.tokens) / bucket.refillPerMs;
+  }
+
+  // Holds back every request for the key after the provider answered 429
+  penalize(key: string, waitMs: number) {
+    const until = Date.now() + waitMs;
+    this.blockedUntil.set(key, Math.max(this.blockedUntil.get(key) ?? 0, until));
+  }
+
+  private bucket(key: string, rpm: number, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.capacity !== rpm) {
+      bucket = { capacity: rpm, tokens: rpm, refillPerMs: rpm / 60000, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+export const rateLimitKey = (provider: ProviderId, organizationId: string | null) =>
+  `${organizationId ?? 'personal'}:${provider}`;
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null | undefined): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// How long a provider asked us to back off, if the error is a 429
+export const rateLimitDelay = (error: unknown): number | null => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 429) return null;
+  return parseRetryAfter(error.response.headers['retry-after']) ?? 0;
+};
+
+// The signed-in user's organization and the tightest of its limit and their active keys' limits
+export const loadRateLimitPolicy = async (): Promise<RateLimitPolicy> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { organizationId: null, rpm: null };
+
+  const { data: keys, error } = await supabase
+    .from('api_keys')
+    .select('organization_id, rate_limit_rpm')
+    .eq('user_id', user.id)
+    .eq('is_active', true);
+  if (error) throw error;
+
+  const organizationId = keys.find(key => key.organization_id)?.organization_id ?? null;
+  const limits = keys.map(key => key.rate_limit_rpm);
+
+  if (organizationId) {
+    const { data: organization, error: orgError } = await supabase
+      .from('organizations')
+      .select('rate_limit_rpm')
+      .eq('id', organizationId)
+      .maybeSingle();
+    if (orgError) throw orgError;
+    limits.push(organization?.rate_limit_rpm ?? null);
+  }
+
+  const set = limits.filter((rpm): rpm is number => typeof rpm === 'number' && rpm > 0);
+  return { organizationId, rpm: set.length > 0 ? Math.min(...set) : null };
+};
@@ -0,0 +1,276 @@
+import type { SAMEmbedding, SAMPredictor } from './samPredictor';
+import type { TaskContext } from './protocol';
+import type { AutoMaskOptions } from './types';
+import { Mask, createMask, maskBounds } from '@/lib/mask';
+
+// Binary mask proposal at full image resolution
+export interface GeneratedMask {
+  mask: Mask;
+  score: number | null;
+  stability: number | null;
+}
+
+const DEFAULT_OPTIONS = {
+  pointsPerSide: 16,
+  predIouThreshold: 0.88,
+  stabilityScoreThreshold: 0.92,
+  nmsIouThreshold: 0.7,
+  minAreaRatio: 0.001,
+  maxAreaRatio: 0.95,
+  maxMasks: 32,
+  threshold: 30,
+};
+
+// Undefined fields fall back to the defaults instead of overriding them
+const withDefaults = (options: AutoMaskOptions) => {
+  const settings = { ...DEFAULT_OPTIONS };
+  for (const key of Object.keys(DEFAULT_OPTIONS) as Array<keyof typeof DEFAULT_OPTIONS>) {
+    settings[key] = options[key] ?? DEFAULT_OPTIONS[key];
+  }
+  return settings;
+};
+
+// Points decoded per decoder call
+const POINT_BATCH_SIZE = 16;
+// Logit offset used for the stability score
+const STABILITY_OFFSET = 1;
+// Pixels processed between cancellation checkpoints
+const CHECKPOINT_INTERVAL = 1 << 16;
+
+// Low-resolution proposal kept until NMS, upscaled only if it survives
+interface LowResProposal {
+  logits: Float32Array;
+  binary: Uint8Array;
+  area: number;
+  bbox: [number, number, number, number];
+  score: number;
+  stability: number;
+}
+
+// Cell-centered grid of prompt points in image pixels
+export const buildPointGrid = (width: number, height: number, pointsPerSide: number) => {
+  const points: Array<{ x: number; y: number }> = [];
+  for (let j = 0; j < pointsPerSide; j++) {
+    for (let i = 0; i < pointsPerSide; i++) {
+      points.push({
+        x: Math.min(width - 1, Math.floor(((i + 0.5) / pointsPerSide) * width)),
+        y: Math.min(height - 1, Math.floor(((j + 0.5) / pointsPerSide) * height)),
+      });
+    }
+  }
+  return points;
+};
+
+// IoU of the masks thresholded at +offset and -offset; 1 means the boundary is sharp
+export const stabilityScore = (logits: Float32Array, offset = STABILITY_OFFSET): number => {
+  let intersection = 0;
+  let union = 0;
+  for (let i = 0; i < logits.length; i++) {
+    if (logits[i] > offset) intersection++;
+    if (logits[i] > -offset) union++;
+  }
+  return union === 0 ? 0 : intersection / union;
+};
+
+const boxesOverlap = (a: [number, number, number, number], b: [number, number, number, number]) =>
+  a[0] < b[0] + b[2] && b[0] < a[0] + a[2] && a[1] < b[1] + b[3] && b[1] < a[1] + a[3];
+
+export const maskIoU = (a: Uint8Array, b: Uint8Array, areaA: number, areaB: number): number => {
+  let intersection = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] && b[i]) intersection++;
+  }
+  const union = areaA + areaB - intersection;
+  return union === 0 ? 0 : intersection / union;
+};
+
+// Greedy non-maximum suppression on mask IoU; input must be sorted best first
+const suppressDuplicates = (proposals: LowResProposal[], iouThreshold: number, limit: number) => {
+  const kept: LowResProposal[] = [];
+  for (const proposal of proposals) {
+    const duplicate = kept.some(k =>
+      boxesOverlap(k.bbox, proposal.bbox) &&
+      maskIoU(k.binary, proposal.binary, k.area, proposal.area) > iouThreshold
+    );
+    if (!duplicate) kept.push(proposal);
+    if (kept.length >= limit) break;
+  }
+  return kept;
+};
+
+// Bilinear upsampling of low-res logits to a full-resolution binary mask (0/255)
+const upscaleLogits = (
+  logits: Float32Array,
+  lowResWidth: number,
+  lowResHeight: number,
+  width: number,
+  height: number,
+  scaleX: number,
+  scaleY: number
+): Uint8Array => {
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const v = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), lowResHeight - 1);
+    const y0 = Math.floor(v);
+    const y1 = Math.min(y0 + 1, lowResHeight - 1);
+    const fy = v - y0;
+    for (let x = 0; x < width; x++) {
+      const u = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), lowResWidth - 1);
+      const x0 = Math.floor(u);
+      const x1 = Math.min(x0 + 1, lowResWidth - 1);
+      const fx = u - x0;
+      const top = logits[y0 * lowResWidth + x0] * (1 - fx) + logits[y0 * lowResWidth + x1] * fx;
+      const bottom = logits[y1 * lowResWidth + x0] * (1 - fx) + logits[y1 * lowResWidth + x1] * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy > 0 ? 255 : 0;
+    }
+  }
+  return out;
+};
+
+// Prompts SAM with a point grid and keeps confident, stable, non-overlapping masks
+export const generateSAMMasks = async (
+  predictor: SAMPredictor,
+  embedding: SAMEmbedding,
+  options: AutoMaskOptions,
+  ctx: TaskContext
+): Promise<GeneratedMask[]> => {
+  const settings = withDefaults(options);
+  const { width, height } = embedding;
+  const grid = buildPointGrid(width, height, settings.pointsPerSide);
+  const proposals: LowResProposal[] = [];
+  let lowResWidth = 0;
+  let lowResHeight = 0;
+
+  for (let start = 0; start < grid.length; start += POINT_BATCH_SIZE) {
+    ctx.reportProgress(0.2 + 0.6 * (start / grid.length), 'Sampling point grid...');
+    await ctx.checkpoint();
+
+    const batch = await predictor.decodePoints(embedding, grid.slice(start, start + POINT_BATCH_SIZE));
+    lowResWidth = batch.lowResWidth;
+    lowResHeight = batch.lowResHeight;
+    const lowResArea = lowResWidth * lowResHeight;
+
+    for (const { logits, score } of batch.masks) {
+      if (score < settings.predIouThreshold) continue;
+
+      const stability = stabilityScore(logits);
+      if (stability < settings.stabilityScoreThreshold) continue;
+
+      const binary = new Uint8Array(logits.length);
+      for (let i = 0; i < logits.length; i++) {
+        binary[i] = logits[i] > 0 ? 255 : 0;
+      }
+      const { area, bbox } = maskBounds(binary, lowResWidth);
+      if (area < settings.minAreaRatio * lowResArea || area > settings.maxAreaRatio * lowResArea) continue;
+
+      proposals.push({ logits, binary, area, bbox, score, stability });
+    }
+  }
+
+  ctx.reportProgress(0.8, 'Removing duplicates...');
+  await ctx.checkpoint();
+  proposals.sort((a, b) => b.score - a.score);
+  const kept = suppressDuplicates(proposals, settings.nmsIouThreshold, settings.maxMasks);
+
+  // Logits live on the resized 1024 input, downsampled 4x by the decoder
+  const [reshapedHeight, reshapedWidth] = embedding.reshapedInputSizes[0];
+  const scaleX = reshapedWidth / width / 4;
+  const scaleY = reshapedHeight / height / 4;
+  const minArea = settings.minAreaRatio * width * height;
+  const masks: GeneratedMask[] = [];
+
+  for (let k = 0; k < kept.length; k++) {
+    ctx.reportProgress(0.85 + 0.15 * (k / kept.length), 'Building masks...');
+    await ctx.checkpoint();
+
+    const { logits, score, stability } = kept[k];
+    const mask = createMask(width, height, upscaleLogits(logits, lowResWidth, lowResHeight, width, height, scaleX, scaleY));
+    if (mask.area < minArea) continue;
+    masks.push({ mask, score, stability });
+  }
+
+  ctx.reportProgress(1);
+  return masks;
+};
+
+// Without SAM, grows one color region from every grid point that is not covered yet
+export const generateRegionMasks = async (
+  imageData: ImageData,
+  options: AutoMaskOptions,
+  ctx: TaskContext
+): Promise<GeneratedMask[]> => {
+  const settings = withDefaults(options);
+  const { width, height, data } = imageData;
+  const total = width * height;
+  const thresholdSq = settings.threshold * settings.threshold;
+  const grid = buildPointGrid(width, height, settings.pointsPerSide);
+
+  // Region id per pixel, 0 = unassigned
+  const labels = new Int32Array(total);
+  const stack = new Int32Array(total);
+  const regions: Array<{ id: number; area: number }> = [];
+  let processed = 0;
+
+  for (let g = 0; g < grid.length; g++) {
+    const seed = grid[g].y * width + grid[g].x;
+    if (labels[seed]) continue;
+
+    ctx.reportProgress(0.8 * (g / grid.length), 'Growing regions...');
+    const id = regions.length + 1;
+    const targetR = data[seed * 4];
+    const targetG = data[seed * 4 + 1];
+    const targetB = data[seed * 4 + 2];
+    let area = 0;
+
+    // Pixels are labeled when pushed, so each one enters the stack at most once
+    let top = 0;
+    const visit = (n: number) => {
+      if (labels[n]) return;
+      const dr = data[n * 4] - targetR;
+      const dg = data[n * 4 + 1] - targetG;
+      const db = data[n * 4 + 2] - targetB;
+      if (dr * dr + dg * dg + db * db <= thresholdSq) {
+        labels[n] = id;
+        stack[top++] = n;
+      }
+    };
+    visit(seed);
+
+    while (top > 0) {
+      const p = stack[--top];
+      area++;
+
+      const x = p % width;
+      if (x + 1 < width) visit(p + 1);
+      if (x > 0) visit(p - 1);
+      if (p + width < total) visit(p + width);
+      if (p >= width) visit(p - width);
+
+      if (++processed % CHECKPOINT_INTERVAL === 0) {
+        await ctx.checkpoint();
+      }
+    }
+
+    regions.push({ id, area });
+  }
+
+  ctx.reportProgress(0.8, 'Building masks...');
+  await ctx.checkpoint();
+
+  const kept = regions
+    .filter(r => r.area >= settings.minAreaRatio * total && r.area <= settings.maxAreaRatio * total)
+    .sort((a, b) => b.area - a.area)
+    .slice(0, settings.maxMasks);
+
+  const masks: GeneratedMask[] = [];
+  for (const region of kept) {
+    const data = new Uint8Array(total);
+    for (let i = 0; i < total; i++) {
+      if (labels[i] === region.id) data[i] = 255;
+    }
+    masks.push({ mask: createMask(width, height, data), score: null, stability: null });
+  }
+
+  ctx.reportProgress(1);
+  return masks;
+};
@@ -0,0 +1,164 @@
+import { BackgroundRemovalPipelineType, PretrainedModelOptions, RawImage, env, pipeline } from '@huggingface/transformers';
+import { DEFAULT_BACKGROUND_MODEL_CONFIG, SAMConfig } from './types';
+import { downloadProgress } from './samPredictor';
+import { TaskContext, noopTaskContext } from './protocol';
+import { Mask, createMask } from '@/lib/mask';
+
+// pipeline() resolves its return type over every task, which is too large for the checker; pin this one
+const createSegmenter = pipeline as unknown as (
+  task: 'background-removal',
+  model: string,
+  options: PretrainedModelOptions
+) => Promise<BackgroundRemovalPipelineType>;
+
+// Salient-object matting model (RMBG, MODNet, ...) behind the transformers.js background-removal pipeline
+export class BackgroundRemover {
+  private segmenter: BackgroundRemovalPipelineType | null = null;
+  private loading: Promise<void> | null = null;
+
+  get isLoaded(): boolean {
+    return this.segmenter !== null;
+  }
+
+  async load(config: SAMConfig = DEFAULT_BACKGROUND_MODEL_CONFIG, onProgress?: (progress: number) => void): Promise<void> {
+    if (this.isLoaded) return;
+
+    if (!this.loading) {
+      this.loading = this.loadModel(config, onProgress).catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async loadModel(config: SAMConfig, onProgress?: (progress: number) => void): Promise<void> {
+    env.localModelPath = config.localModelPath;
+    env.allowLocalModels = true;
+    env.allowRemoteModels = config.allowRemoteModels;
+
+    this.segmenter = await createSegmenter('background-removal', config.modelId, {
+      device: 'wasm',
+      dtype: 'fp32',
+      progress_callback: downloadProgress(onProgress),
+    });
+  }
+
+  // Foreground alpha at the image resolution
+  async predict(imageData: ImageData): Promise<Mask> {
+    if (!this.segmenter) {
+      throw new Error('Background removal model is not loaded');
+    }
+
+    const { width, height } = imageData;
+    const image = new RawImage(new Uint8ClampedArray(imageData.data), width, height, 4).rgb();
+    const [output] = await this.segmenter(image);
+
+    const alpha = new Uint8Array(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+      alpha[i] = output.data[i * 4 + 3];
+    }
+    return createMask(width, height, alpha);
+  }
+}
+
+// Background colors are clustered from the image border
+const BORDER_CLUSTERS = 6;
+const CLUSTER_ITERATIONS = 8;
+// Pixels processed between cancellation checkpoints
+const CHECKPOINT_INTERVAL = 1 << 16;
+
+const borderPixels = (width: number, height: number): number[] => {
+  const pixels: number[] = [];
+  for (let x = 0; x < width; x++) pixels.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) pixels.push(y * width, y * width + width - 1);
+  return pixels;
+};
+
+// k-means over the border colors, seeded with evenly spaced border pixels
+const clusterColors = (data: Uint8ClampedArray, pixels: number[]): number[][] => {
+  const k = Math.min(BORDER_CLUSTERS, pixels.length);
+  const centers = Array.from({ length: k }, (_, c) => {
+    const p = pixels[Math.floor((c * pixels.length) / k)] * 4;
+    return [data[p], data[p + 1], data[p + 2]];
+  });
+
+  for (let iteration = 0; iteration < CLUSTER_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const pixel of pixels) {
+      const p = pixel * 4;
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach(([r, g, b], c) => {
+        const distance = (data[p] - r) ** 2 + (data[p + 1] - g) ** 2 + (data[p + 2] - b) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      });
+      sums[best][0] += data[p];
+      sums[best][1] += data[p + 1];
+      sums[best][2] += data[p + 2];
+      sums[best][3]++;
+    }
+    sums.forEach(([r, g, b, count], c) => {
+      if (count > 0) centers[c] = [r / count, g / count, b / count];
+    });
+  }
+
+  return centers;
+};
+
+// Offline Magic Cut: everything reachable from the image border through background-colored
+// pixels is background, the rest is the subject
+export const borderBackgroundMask = async (
+  imageData: ImageData,
+  threshold = 40,
+  ctx: TaskContext = noopTaskContext
+): Promise<Mask> => {
+  const { width, height, data } = imageData;
+  const total = width * height;
+  const border = borderPixels(width, height);
+  const centers = clusterColors(data, border);
+  const thresholdSq = threshold * threshold;
+
+  const isBackgroundColor = (pixel: number) => {
+    const p = pixel * 4;
+    return centers.some(([r, g, b]) =>
+      (data[p] - r) ** 2 + (data[p + 1] - g) ** 2 + (data[p + 2] - b) ** 2 <= thresholdSq
+    );
+  };
+
+  // Starts fully foreground; the fill clears background pixels as it pushes them
+  const foreground = new Uint8Array(total).fill(255);
+  const stack = new Int32Array(total);
+  let top = 0;
+  let processed = 0;
+
+  const visit = (pixel: number) => {
+    if (foreground[pixel] && isBackgroundColor(pixel)) {
+      foreground[pixel] = 0;
+      stack[top++] = pixel;
+    }
+  };
+
+  ctx.reportProgress(0, 'Finding background...');
+  border.forEach(visit);
+
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x + 1 < width) visit(p + 1);
+    if (x > 0) visit(p - 1);
+    if (p + width < total) visit(p + width);
+    if (p >= width) visit(p - width);
+
+    if (++processed % CHECKPOINT_INTERVAL === 0) {
+      ctx.reportProgress(Math.min(processed / total, 1) * 0.6, 'Finding background...');
+      await ctx.checkpoint();
+    }
+  }
+
+  return createMask(width, height, foreground);
+};
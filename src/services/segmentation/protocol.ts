@@ -0,0 +1,78 @@
+import type {
+  AutoMaskOptions,
+  BackgroundRemovalOptions,
+  LabeledMask,
+  SAMConfig,
+  SegmentationCandidate,
+  SegmentationOptions,
+} from './types';
+import type { Mask } from '@/lib/mask';
+import type { MattingOptions } from '@/lib/alphaMatting';
+import type { InpaintOptions } from '@/lib/inpaint';
+
+// Pixel buffer that can be moved between threads without copying
+export interface TransferableImage {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+
+export type SegmentationRequest =
+  | { type: 'init'; id: number; config: SAMConfig }
+  | { type: 'encode'; id: number; image: TransferableImage; imageKey?: string }
+  | {
+      type: 'segment';
+      id: number;
+      image: TransferableImage;
+      clickPoint?: { x: number; y: number };
+      options: SegmentationOptions;
+    }
+  | { type: 'segment-all'; id: number; image: TransferableImage; options: AutoMaskOptions }
+  | { type: 'matte'; id: number; image: TransferableImage; mask: Mask; options: MattingOptions }
+  | { type: 'remove-background'; id: number; image: TransferableImage; options: BackgroundRemovalOptions }
+  | { type: 'inpaint'; id: number; image: TransferableImage; mask: Mask; options: InpaintOptions }
+  | { type: 'cancel'; id: number };
+
+export type SegmentationResponse =
+  | { type: 'progress'; id: number; progress: number; message?: string }
+  | {
+      type: 'result';
+      id: number;
+      candidates?: SegmentationCandidate[];
+      objects?: LabeledMask[];
+      mask?: Mask;
+      image?: TransferableImage;
+    }
+  | { type: 'error'; id: number; message: string; cancelled: boolean };
+
+export class CancelledError extends Error {
+  constructor(message = 'Segmentation cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+// Hooks the runtime uses to report progress and observe cancellation
+export interface TaskContext {
+  reportProgress: (progress: number, message?: string) => void;
+  // Yields to the event loop so queued cancel messages get a chance to arrive
+  checkpoint: () => Promise<void>;
+}
+
+export const noopTaskContext: TaskContext = {
+  reportProgress: () => {},
+  checkpoint: async () => {},
+};
+
+export const toTransferableImage = (imageData: ImageData): TransferableImage => ({
+  width: imageData.width,
+  height: imageData.height,
+  buffer: imageData.data.buffer as ArrayBuffer,
+});
+
+export const fromTransferableImage = ({ width, height, buffer }: TransferableImage): ImageData =>
+  new ImageData(new Uint8ClampedArray(buffer), width, height);
+
+// Masks are plain objects over a typed array, so only the buffer needs transferring
+export const maskTransferList = (masks: Mask[]): Transferable[] => masks.map(m => m.data.buffer as ArrayBuffer);
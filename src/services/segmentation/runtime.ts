@@ -0,0 +1,383 @@
+import { SAMEmbedding, SAMPoint, SAMPrediction, SAMPredictor } from './samPredictor';
+import { CancelledError, TaskContext, noopTaskContext } from './protocol';
+import { BackgroundRemover, borderBackgroundMask } from './backgroundRemover';
+import { GeneratedMask, generateRegionMasks, generateSAMMasks } from './automaticMaskGenerator';
+import {
+  AutoMaskOptions,
+  BackgroundRemovalOptions,
+  DEFAULT_BACKGROUND_MODEL_CONFIG,
+  DEFAULT_SAM_CONFIG,
+  LabeledMask,
+  SAMConfig,
+  SegmentationCandidate,
+  SegmentationOptions,
+} from './types';
+import { LRUCache } from '@/lib/lruCache';
+import { sha256Hex } from '@/lib/hash';
+import { Mask, createMask } from '@/lib/mask';
+import { MaskRefineOptions, hasRefinement, refineMask } from '@/lib/maskOps';
+import { EdgeRefineOptions, refineEdges } from '@/lib/edgeRefine';
+import { MattingOptions, matteMask } from '@/lib/alphaMatting';
+import { InpaintOptions, inpaint } from '@/lib/inpaint';
+
+// Pixels processed between cancellation checkpoints
+const CHECKPOINT_INTERVAL = 1 << 16;
+
+// Segmentation engine that runs inside the segmentation worker
+export class SegmentationRuntime {
+  private initialized = false;
+  private predictor = new SAMPredictor();
+  private backgroundRemover = new BackgroundRemover();
+  private embeddingCache = new LRUCache<string, Promise<SAMEmbedding>>(4, (_key, embedding) => {
+    embedding.then(e => {
+      e.imageEmbeddings.dispose();
+      e.imagePositionalEmbeddings.dispose();
+    }).catch(() => {});
+  });
+
+  async initialize(config: SAMConfig = DEFAULT_SAM_CONFIG, ctx: TaskContext = noopTaskContext): Promise<void> {
+    ctx.reportProgress(0, 'Loading SAM model...');
+    await this.predictor.load(config, (progress) => ctx.reportProgress(progress, 'Loading SAM model...'));
+    this.initialized = true;
+    ctx.reportProgress(1);
+  }
+
+  async segment(
+    imageData: ImageData,
+    clickPoint: { x: number; y: number } | undefined,
+    options: SegmentationOptions = {},
+    ctx: TaskContext = noopTaskContext
+  ): Promise<SegmentationCandidate[]> {
+    if (options.mode === 'fallback') {
+      // A box without points seeds the fill at its center
+      const seed = clickPoint ?? (options.box && {
+        x: Math.round(options.box.x + options.box.width / 2),
+        y: Math.round(options.box.y + options.box.height / 2),
+      });
+      if (!seed) {
+        throw new Error('Flood fill segmentation requires a positive point or a box');
+      }
+      const mask = await this.advancedFallbackSegmentation(imageData, seed, options, ctx);
+      return [{ mask, score: null, index: 0 }];
+    }
+
+    if (!this.initialized) {
+      throw new Error('SAM model is not initialized. Switch to the flood fill fallback or check the model path.');
+    }
+
+    const { positivePoints = [], negativePoints = [], refine = {}, includeEdges = false, edges = {} } = options;
+    const positives = clickPoint && !positivePoints.some(p => p.x === clickPoint.x && p.y === clickPoint.y)
+      ? [clickPoint, ...positivePoints]
+      : positivePoints;
+    const points: SAMPoint[] = [
+      ...positives.map(p => ({ x: p.x, y: p.y, type: 'positive' as const })),
+      ...negativePoints.map(p => ({ x: p.x, y: p.y, type: 'negative' as const })),
+    ];
+
+    const embedding = await this.encodeImage(imageData, options.imageKey, ctx);
+    await ctx.checkpoint();
+
+    ctx.reportProgress(0.8, 'Decoding mask...');
+    const prediction = await this.predictor.decode(embedding, points, options.box);
+    await ctx.checkpoint();
+
+    return this.processSAMResult(prediction, imageData, refine, includeEdges ? edges : null, ctx);
+  }
+
+  // Automatic mode: every object in the image, largest first
+  async segmentEverything(
+    imageData: ImageData,
+    options: AutoMaskOptions = {},
+    ctx: TaskContext = noopTaskContext
+  ): Promise<LabeledMask[]> {
+    let generated: GeneratedMask[];
+
+    if (options.mode === 'fallback') {
+      generated = await generateRegionMasks(imageData, options, ctx);
+    } else {
+      if (!this.initialized) {
+        throw new Error('SAM model is not initialized. Switch to the flood fill fallback or check the model path.');
+      }
+      const embedding = await this.encodeImage(imageData, options.imageKey, ctx);
+      await ctx.checkpoint();
+      generated = await generateSAMMasks(this.predictor, embedding, options, ctx);
+    }
+
+    return generated
+      .sort((a, b) => b.mask.area - a.mask.area)
+      .map(({ mask, score, stability }, i) => ({ label: `Object ${i + 1}`, mask, score, stability }));
+  }
+
+  // Magic Cut: foreground alpha of the salient subject. The model is loaded on first use;
+  // when it cannot be loaded the border color fallback runs instead
+  async removeBackground(
+    imageData: ImageData,
+    options: BackgroundRemovalOptions = {},
+    ctx: TaskContext = noopTaskContext
+  ): Promise<Mask> {
+    const { mode = 'sam', threshold, refine = {}, includeEdges = false, edges = {} } = options;
+    let mask: Mask | null = null;
+
+    if (mode === 'sam') {
+      try {
+        ctx.reportProgress(0, 'Loading background removal model...');
+        await this.backgroundRemover.load(DEFAULT_BACKGROUND_MODEL_CONFIG, (progress) =>
+          ctx.reportProgress(progress * 0.5, 'Loading background removal model...')
+        );
+        await ctx.checkpoint();
+        ctx.reportProgress(0.5, 'Finding foreground...');
+        mask = await this.backgroundRemover.predict(imageData);
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        console.warn('Background removal model unavailable, using the border color fallback:', error);
+        ctx.reportProgress(0, 'Model unavailable, using local fallback...');
+      }
+    }
+
+    if (mask) {
+      ctx.reportProgress(1);
+      return mask;
+    }
+
+    // The fallback mask is hard and blocky; the model matte is already soft and is returned as is
+    mask = await borderBackgroundMask(imageData, threshold, ctx);
+    await ctx.checkpoint();
+
+    if (hasRefinement(refine)) {
+      ctx.reportProgress(0.8, 'Refining mask...');
+      mask = refineMask(mask, refine);
+      await ctx.checkpoint();
+    }
+
+    if (includeEdges) {
+      ctx.reportProgress(0.9, 'Refining edges...');
+      mask = refineEdges(imageData, mask, edges);
+    }
+
+    ctx.reportProgress(1);
+    return mask;
+  }
+
+  // Trimap + sampling-based alpha matting for hair, fur and other fine edges
+  async matte(
+    imageData: ImageData,
+    mask: Mask,
+    options: MattingOptions = {},
+    ctx: TaskContext = noopTaskContext
+  ): Promise<Mask> {
+    ctx.reportProgress(0, 'Estimating alpha matte...');
+    await ctx.checkpoint();
+    const matte = matteMask(imageData, mask, options, (progress) =>
+      ctx.reportProgress(progress * 0.95, 'Estimating alpha matte...')
+    );
+    ctx.reportProgress(1);
+    return matte;
+  }
+
+  // Smart Erase: patch-based fill of the masked region from the surrounding texture
+  async inpaint(
+    imageData: ImageData,
+    mask: Mask,
+    options: InpaintOptions = {},
+    ctx: TaskContext = noopTaskContext
+  ): Promise<ImageData> {
+    ctx.reportProgress(0, 'Filling region...');
+    const result = await inpaint(imageData, mask, options, async (progress) => {
+      ctx.reportProgress(progress * 0.95, 'Filling region...');
+      await ctx.checkpoint();
+    });
+    ctx.reportProgress(1);
+    return result;
+  }
+
+  // Runs the SAM encoder once per image; later prompt sets only hit the decoder
+  async encodeImage(imageData: ImageData, imageKey?: string, ctx: TaskContext = noopTaskContext): Promise<SAMEmbedding> {
+    if (!this.initialized) {
+      throw new Error('SAM model is not initialized');
+    }
+
+    const key = imageKey ?? await sha256Hex(imageData.data);
+    let embedding = this.embeddingCache.get(key);
+
+    if (!embedding) {
+      ctx.reportProgress(0.1, 'Encoding image...');
+      embedding = this.predictor.encode(imageData);
+      this.embeddingCache.set(key, embedding);
+      // Do not keep failed encodes around
+      embedding.catch(() => {
+        if (this.embeddingCache.get(key) === embedding) {
+          this.embeddingCache.delete(key);
+        }
+      });
+    }
+
+    return embedding;
+  }
+
+  private async advancedFallbackSegmentation(
+    imageData: ImageData,
+    clickPoint: { x: number; y: number },
+    options: SegmentationOptions,
+    ctx: TaskContext
+  ): Promise<Mask> {
+    const {
+      threshold = 30,
+      refine = {},
+      includeEdges = false,
+      edges = {},
+      positivePoints = [],
+      negativePoints = [],
+      box,
+    } = options;
+    const { width, height, data } = imageData;
+    const selected = new Uint8Array(width * height);
+    const total = width * height;
+
+    // Box prompts limit the fill to the box; pixels outside start out visited
+    const visited = new Uint8Array(total);
+    if (box) {
+      const x0 = Math.max(0, Math.floor(box.x));
+      const y0 = Math.max(0, Math.floor(box.y));
+      const x1 = Math.min(width, Math.ceil(box.x + box.width));
+      const y1 = Math.min(height, Math.ceil(box.y + box.height));
+      visited.fill(1);
+      for (let y = y0; y < y1; y++) {
+        visited.fill(0, y * width + x0, y * width + x1);
+      }
+    }
+
+    // Get target color at click point
+    const targetIdx = (clickPoint.y * width + clickPoint.x) * 4;
+    const targetR = data[targetIdx];
+    const targetG = data[targetIdx + 1];
+    const targetB = data[targetIdx + 2];
+    const thresholdSq = threshold * threshold;
+
+    // Multi-point flood fill over an explicit pixel stack
+    const stack = new Int32Array(total);
+    let processed = 0;
+
+    ctx.reportProgress(0, 'Growing region...');
+
+    // Pixels are marked when pushed, so each one enters the stack at most once
+    const push = (p: number, top: number) => {
+      visited[p] = 1;
+      stack[top] = p;
+      return top + 1;
+    };
+
+    for (const point of [clickPoint, ...positivePoints]) {
+      if (point.x < 0 || point.x >= width || point.y < 0 || point.y >= height) continue;
+
+      const seed = point.y * width + point.x;
+      if (visited[seed]) continue;
+      let top = push(seed, 0);
+
+      while (top > 0) {
+        const p = stack[--top];
+        const idx = p * 4;
+        const dr = data[idx] - targetR;
+        const dg = data[idx + 1] - targetG;
+        const db = data[idx + 2] - targetB;
+
+        if (dr * dr + dg * dg + db * db <= thresholdSq) {
+          // Mark as selected
+          selected[p] = 255;
+
+          const x = p % width;
+          if (x + 1 < width && !visited[p + 1]) top = push(p + 1, top);
+          if (x > 0 && !visited[p - 1]) top = push(p - 1, top);
+          if (p + width < total && !visited[p + width]) top = push(p + width, top);
+          if (p >= width && !visited[p - width]) top = push(p - width, top);
+        }
+
+        if (++processed % CHECKPOINT_INTERVAL === 0) {
+          ctx.reportProgress(Math.min(processed / total, 1) * 0.6, 'Growing region...');
+          await ctx.checkpoint();
+        }
+      }
+    }
+
+    // Remove regions connected to negative points; pixels are cleared when pushed
+    const clear = (p: number, top: number) => {
+      selected[p] = 0;
+      stack[top] = p;
+      return top + 1;
+    };
+    const isSelected = (p: number) => selected[p] > 0;
+
+    for (const negPoint of negativePoints) {
+      if (negPoint.x < 0 || negPoint.x >= width || negPoint.y < 0 || negPoint.y >= height) continue;
+
+      const seed = negPoint.y * width + negPoint.x;
+      if (!isSelected(seed)) continue;
+      let top = clear(seed, 0);
+
+      while (top > 0) {
+        const p = stack[--top];
+        const x = p % width;
+        if (x + 1 < width && isSelected(p + 1)) top = clear(p + 1, top);
+        if (x > 0 && isSelected(p - 1)) top = clear(p - 1, top);
+        if (p + width < total && isSelected(p + width)) top = clear(p + width, top);
+        if (p >= width && isSelected(p - width)) top = clear(p - width, top);
+
+        if (++processed % CHECKPOINT_INTERVAL === 0) {
+          await ctx.checkpoint();
+        }
+      }
+    }
+
+    ctx.reportProgress(0.6);
+    let mask = createMask(width, height, selected);
+
+    if (hasRefinement(refine)) {
+      ctx.reportProgress(0.8, 'Refining mask...');
+      await ctx.checkpoint();
+      mask = refineMask(mask, refine);
+    }
+
+    // Snap the stair-stepped fill boundary onto image edges
+    if (includeEdges) {
+      ctx.reportProgress(0.9, 'Refining edges...');
+      await ctx.checkpoint();
+      mask = refineEdges(imageData, mask, edges);
+    }
+
+    ctx.reportProgress(1);
+    return mask;
+  }
+
+  private async processSAMResult(
+    result: SAMPrediction,
+    imageData: ImageData,
+    refine: MaskRefineOptions,
+    edges: EdgeRefineOptions | null,
+    ctx: TaskContext
+  ): Promise<SegmentationCandidate[]> {
+    const { width, height, masks } = result;
+    const candidates: SegmentationCandidate[] = [];
+
+    for (let c = 0; c < masks.length; c++) {
+      const { probabilities, score, index } = masks[c];
+      // Soft mask: values are foreground probabilities
+      let mask = createMask(width, height, probabilities);
+
+      if (hasRefinement(refine)) {
+        ctx.reportProgress(0.8 + (0.2 * c) / masks.length, 'Refining masks...');
+        await ctx.checkpoint();
+        mask = refineMask(mask, refine);
+      }
+
+      if (edges) {
+        ctx.reportProgress(0.8 + (0.2 * (c + 0.5)) / masks.length, 'Refining edges...');
+        await ctx.checkpoint();
+        mask = refineEdges(imageData, mask, edges);
+      }
+
+      candidates.push({ mask, score, index });
+    }
+
+    ctx.reportProgress(1);
+    return candidates;
+  }
+}
@@ -0,0 +1,245 @@
+import { AutoProcessor, ProgressInfo, RawImage, SamModel, SamProcessor, Tensor, env } from '@huggingface/transformers';
+import { BoxPrompt, DEFAULT_SAM_CONFIG, SAMConfig } from './types';
+
+export interface SAMPoint {
+  x: number;
+  y: number;
+  type: 'positive' | 'negative';
+}
+
+export interface SAMMaskPrediction {
+  // Per-pixel foreground probability in [0, 1]
+  probabilities: Float32Array;
+  // Predicted IoU reported by the decoder
+  score: number;
+  // Position in the decoder output (0-2)
+  index: number;
+}
+
+export interface SAMPrediction {
+  width: number;
+  height: number;
+  // Candidate masks, best predicted IoU first
+  masks: SAMMaskPrediction[];
+}
+
+// Decoder output at the model's 256x256 resolution, cropped to the unpadded image area
+export interface SAMLowResMask {
+  // Index of the prompt point in the batch
+  pointIndex: number;
+  score: number;
+  logits: Float32Array;
+}
+
+// Aggregates byte progress over all files of a model download
+export const downloadProgress = (onProgress?: (progress: number) => void) => {
+  const files = new Map<string, { loaded: number; total: number }>();
+  return (info: ProgressInfo) => {
+    if (info.status !== 'progress' || !onProgress) return;
+    files.set(info.file, { loaded: info.loaded, total: info.total });
+    let loaded = 0;
+    let total = 0;
+    files.forEach(f => {
+      loaded += f.loaded;
+      total += f.total;
+    });
+    if (total > 0) onProgress(loaded / total);
+  };
+};
+
+// Encoder output for one image; reusable across any number of prompt sets
+export interface SAMEmbedding {
+  width: number;
+  height: number;
+  imageEmbeddings: Tensor;
+  imagePositionalEmbeddings: Tensor;
+  originalSizes: [number, number][];
+  reshapedInputSizes: [number, number][];
+}
+
+// Thin wrapper around the transformers.js SAM encoder/decoder running on the WASM (CPU) backend
+export class SAMPredictor {
+  private model: SamModel | null = null;
+  private processor: SamProcessor | null = null;
+  private loading: Promise<void> | null = null;
+  private config: SAMConfig = DEFAULT_SAM_CONFIG;
+
+  get isLoaded(): boolean {
+    return this.model !== null && this.processor !== null;
+  }
+
+  get modelId(): string {
+    return this.config.modelId;
+  }
+
+  async load(config: SAMConfig = DEFAULT_SAM_CONFIG, onProgress?: (progress: number) => void): Promise<void> {
+    if (this.isLoaded) return;
+
+    if (!this.loading) {
+      this.loading = this.loadModel(config, onProgress).catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async loadModel(config: SAMConfig, onProgress?: (progress: number) => void): Promise<void> {
+    env.localModelPath = config.localModelPath;
+    env.allowLocalModels = true;
+    env.allowRemoteModels = config.allowRemoteModels;
+
+    const progressCallback = downloadProgress(onProgress);
+
+    const [model, processor] = await Promise.all([
+      SamModel.from_pretrained(config.modelId, {
+        device: 'wasm',
+        dtype: 'fp32',
+        progress_callback: progressCallback,
+      }),
+      AutoProcessor.from_pretrained(config.modelId, { progress_callback: progressCallback }),
+    ]);
+
+    this.model = model as SamModel;
+    this.processor = processor as SamProcessor;
+    this.config = config;
+  }
+
+  // Heavy step: resize/pad to 1024x1024 and run the image encoder
+  async encode(imageData: ImageData): Promise<SAMEmbedding> {
+    if (!this.model || !this.processor) {
+      throw new Error('SAM model is not loaded');
+    }
+
+    const { width, height } = imageData;
+    const image = new RawImage(new Uint8ClampedArray(imageData.data), width, height, 4).rgb();
+    const inputs = await this.processor(image);
+    const { image_embeddings, image_positional_embeddings } = await this.model.get_image_embeddings(inputs);
+    (inputs.pixel_values as Tensor).dispose();
+
+    return {
+      width,
+      height,
+      imageEmbeddings: image_embeddings,
+      imagePositionalEmbeddings: image_positional_embeddings,
+      originalSizes: inputs.original_sizes,
+      reshapedInputSizes: inputs.reshaped_input_sizes,
+    };
+  }
+
+  // Lightweight step: prompt encoder + mask decoder against a precomputed embedding
+  async decode(embedding: SAMEmbedding, points: SAMPoint[], box?: BoxPrompt): Promise<SAMPrediction> {
+    if (!this.model || !this.processor) {
+      throw new Error('SAM model is not loaded');
+    }
+    if (points.length === 0 && !box) {
+      throw new Error('At least one point or box prompt is required');
+    }
+
+    const { width, height, originalSizes, reshapedInputSizes } = embedding;
+
+    // Point prompts in model input space, labels 1 = foreground, 0 = background.
+    // A box-only prompt still needs a point tensor, so pass a single padding point (-10).
+    const pointCoords = points.length > 0 ? points.map(p => [p.x, p.y]) : [[0, 0]];
+    const pointLabels = points.length > 0 ? points.map(p => (p.type === 'positive' ? 1n : 0n)) : [-10n];
+
+    const inputPoints = this.processor.reshape_input_points(
+      [pointCoords],
+      originalSizes,
+      reshapedInputSizes
+    ) as Tensor;
+    const inputLabels = new Tensor('int64', BigInt64Array.from(pointLabels), [1, 1, pointLabels.length]);
+
+    // Box prompt as (x1, y1, x2, y2) with shape [batch, boxes, 4]
+    const inputBoxes = box
+      ? this.processor.reshape_input_points(
+          [[[box.x, box.y, box.x + box.width, box.y + box.height]]],
+          originalSizes,
+          reshapedInputSizes,
+          true
+        ) as Tensor
+      : undefined;
+
+    const outputs = await this.model({
+      image_embeddings: embedding.imageEmbeddings,
+      image_positional_embeddings: embedding.imagePositionalEmbeddings,
+      input_points: inputPoints,
+      input_labels: inputLabels,
+      ...(inputBoxes && { input_boxes: inputBoxes }),
+    });
+
+    // Upscale low-res logits back to the original image size without thresholding
+    const [masks] = await this.processor.post_process_masks(
+      outputs.pred_masks,
+      originalSizes,
+      reshapedInputSizes,
+      { binarize: false }
+    );
+
+    const scores = outputs.iou_scores.data as Float32Array;
+    const planeSize = width * height;
+    const candidates: SAMMaskPrediction[] = [];
+
+    for (let index = 0; index < scores.length; index++) {
+      const logits = (masks.data as Float32Array).subarray(index * planeSize, (index + 1) * planeSize);
+      const probabilities = new Float32Array(planeSize);
+      for (let i = 0; i < planeSize; i++) {
+        probabilities[i] = 1 / (1 + Math.exp(-logits[i]));
+      }
+      candidates.push({ probabilities, score: scores[index], index });
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    return { width, height, masks: candidates };
+  }
+
+  // Single-point prompts decoded as one batch; masks stay at low resolution so large grids fit in memory
+  async decodePoints(
+    embedding: SAMEmbedding,
+    points: Array<{ x: number; y: number }>
+  ): Promise<{ lowResWidth: number; lowResHeight: number; masks: SAMLowResMask[] }> {
+    if (!this.model || !this.processor) {
+      throw new Error('SAM model is not loaded');
+    }
+
+    const { originalSizes, reshapedInputSizes } = embedding;
+    const inputPoints = this.processor.reshape_input_points(
+      [points.map(p => [[p.x, p.y]])],
+      originalSizes,
+      reshapedInputSizes
+    ) as Tensor;
+    const inputLabels = new Tensor('int64', new BigInt64Array(points.length).fill(1n), [1, points.length, 1]);
+
+    const outputs = await this.model({
+      image_embeddings: embedding.imageEmbeddings,
+      image_positional_embeddings: embedding.imagePositionalEmbeddings,
+      input_points: inputPoints,
+      input_labels: inputLabels,
+    });
+
+    // pred_masks: [1, points, 3, 256, 256] over the padded 1024x1024 input
+    const predMasks = outputs.pred_masks as Tensor;
+    const [, , maskCount, size, sizeX] = predMasks.dims;
+    const [reshapedHeight, reshapedWidth] = reshapedInputSizes[0];
+    const lowResHeight = Math.ceil(reshapedHeight * size / 1024);
+    const lowResWidth = Math.ceil(reshapedWidth * sizeX / 1024);
+    const data = predMasks.data as Float32Array;
+    const scores = outputs.iou_scores.data as Float32Array;
+
+    const masks: SAMLowResMask[] = [];
+    for (let p = 0; p < points.length; p++) {
+      for (let m = 0; m < maskCount; m++) {
+        const offset = (p * maskCount + m) * size * sizeX;
+        const logits = new Float32Array(lowResWidth * lowResHeight);
+        for (let y = 0; y < lowResHeight; y++) {
+          logits.set(data.subarray(offset + y * sizeX, offset + y * sizeX + lowResWidth), y * lowResWidth);
+        }
+        masks.push({ pointIndex: p, score: scores[p * maskCount + m], logits });
+      }
+    }
+
+    predMasks.dispose();
+    return { lowResWidth, lowResHeight, masks };
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  CancelledError,
+  SegmentationRequest,
+  SegmentationResponse,
+  TaskContext,
+  fromTransferableImage,
+  maskTransferList,
+  toTransferableImage,
+} from './protocol';
+import { SegmentationRuntime } from './runtime';
+
+const runtime = new SegmentationRuntime();
+const cancelled = new Set<number>();
+
+const post = (response: SegmentationResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const createContext = (id: number): TaskContext => ({
+  reportProgress: (progress, message) => post({ type: 'progress', id, progress, message }),
+  checkpoint: async () => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (cancelled.has(id)) throw new CancelledError();
+  },
+});
+
+const handleRequest = async (request: Exclude<SegmentationRequest, { type: 'cancel' }>) => {
+  const ctx = createContext(request.id);
+
+  switch (request.type) {
+    case 'init':
+      await runtime.initialize(request.config, ctx);
+      post({ type: 'result', id: request.id });
+      break;
+
+    case 'encode':
+      await runtime.encodeImage(fromTransferableImage(request.image), request.imageKey, ctx);
+      post({ type: 'result', id: request.id });
+      break;
+
+    case 'segment': {
+      const candidates = await runtime.segment(
+        fromTransferableImage(request.image),
+        request.clickPoint,
+        request.options,
+        ctx
+      );
+      post({ type: 'result', id: request.id, candidates }, maskTransferList(candidates.map(c => c.mask)));
+      break;
+    }
+
+    case 'segment-all': {
+      const objects = await runtime.segmentEverything(fromTransferableImage(request.image), request.options, ctx);
+      post({ type: 'result', id: request.id, objects }, maskTransferList(objects.map(o => o.mask)));
+      break;
+    }
+
+    case 'matte': {
+      const mask = await runtime.matte(fromTransferableImage(request.image), request.mask, request.options, ctx);
+      post({ type: 'result', id: request.id, mask }, maskTransferList([mask]));
+      break;
+    }
+
+    case 'inpaint': {
+      const result = await runtime.inpaint(fromTransferableImage(request.image), request.mask, request.options, ctx);
+      const image = toTransferableImage(result);
+      post({ type: 'result', id: request.id, image }, [image.buffer]);
+      break;
+    }
+
+    case 'remove-background': {
+      const mask = await runtime.removeBackground(fromTransferableImage(request.image), request.options, ctx);
+      post({ type: 'result', id: request.id, mask }, maskTransferList([mask]));
+      break;
+    }
+  }
+};
+
+const run = async (request: Exclude<SegmentationRequest, { type: 'cancel' }>) => {
+  try {
+    if (cancelled.has(request.id)) throw new CancelledError();
+    await handleRequest(request);
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof CancelledError,
+    });
+  } finally {
+    cancelled.delete(request.id);
+  }
+};
+
+// Requests run one at a time; the ONNX sessions are not re-entrant
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<SegmentationRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  queue = queue.then(() => run(request));
+};
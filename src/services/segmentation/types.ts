@@ -0,0 +1,96 @@
+import type { Mask } from '@/lib/mask';
+import type { MaskRefineOptions } from '@/lib/maskOps';
+import type { EdgeRefineOptions } from '@/lib/edgeRefine';
+
+export interface SAMConfig {
+  // Model id, resolved against localModelPath (e.g. /models/Xenova/sam-vit-base/)
+  modelId: string;
+  localModelPath: string;
+  allowRemoteModels: boolean;
+}
+
+export const DEFAULT_SAM_CONFIG: SAMConfig = {
+  modelId: import.meta.env.VITE_SAM_MODEL_ID || 'Xenova/sam-vit-base',
+  localModelPath: import.meta.env.VITE_SAM_MODEL_PATH || '/models/',
+  allowRemoteModels: import.meta.env.VITE_SAM_ALLOW_REMOTE === 'true',
+};
+
+// Salient-object model used by Magic Cut; same path conventions as the SAM config
+export const DEFAULT_BACKGROUND_MODEL_CONFIG: SAMConfig = {
+  modelId: import.meta.env.VITE_BACKGROUND_MODEL_ID || 'briaai/RMBG-1.4',
+  localModelPath: DEFAULT_SAM_CONFIG.localModelPath,
+  allowRemoteModels: DEFAULT_SAM_CONFIG.allowRemoteModels,
+};
+
+export type SegmentationMode = 'sam' | 'fallback';
+
+// Axis-aligned box prompt in image pixel coordinates
+export interface BoxPrompt {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SegmentationOptions {
+  mode?: SegmentationMode;
+  // Content hash of the source image; computed from the pixels when omitted
+  imageKey?: string;
+  // Snap mask boundaries to image edges and return a soft matte
+  includeEdges?: boolean;
+  edges?: EdgeRefineOptions;
+  threshold?: number;
+  // Morphological clean-up of every returned mask
+  refine?: MaskRefineOptions;
+  positivePoints?: Array<{ x: number; y: number; type: string }>;
+  negativePoints?: Array<{ x: number; y: number; type: string }>;
+  box?: BoxPrompt;
+}
+
+// One ranked mask proposal; score/index map to confidence_score/segmentation_index in sam2_segmentations
+export interface SegmentationCandidate {
+  // Probabilities for SAM, 0/255 coverage for the flood fill fallback
+  mask: Mask;
+  // Predicted IoU from the SAM decoder, null for the flood fill fallback
+  score: number | null;
+  index: number;
+}
+
+// Automatic "segment everything" settings; defaults follow the SAM automatic mask generator
+export interface AutoMaskOptions {
+  mode?: SegmentationMode;
+  imageKey?: string;
+  // Prompts are a pointsPerSide x pointsPerSide grid over the image
+  pointsPerSide?: number;
+  // Drop masks whose predicted IoU is below this
+  predIouThreshold?: number;
+  // Drop masks whose shape changes too much when the logit cutoff moves
+  stabilityScoreThreshold?: number;
+  // Masks overlapping an already kept mask by more than this IoU are duplicates
+  nmsIouThreshold?: number;
+  // Mask area limits as fractions of the image area
+  minAreaRatio?: number;
+  maxAreaRatio?: number;
+  maxMasks?: number;
+  // Color tolerance for the flood fill fallback
+  threshold?: number;
+}
+
+// One object found by automatic segmentation
+export interface LabeledMask {
+  label: string;
+  mask: Mask;
+  // Predicted IoU and stability score from SAM, null for the flood fill fallback
+  score: number | null;
+  stability: number | null;
+}
+
+// Magic Cut settings; 'sam' mode runs the salient-object model, 'fallback' the border color fill
+export interface BackgroundRemovalOptions {
+  mode?: SegmentationMode;
+  // Fallback only: color tolerance, clean-up and edge refinement of its hard mask
+  threshold?: number;
+  refine?: MaskRefineOptions;
+  includeEdges?: boolean;
+  edges?: EdgeRefineOptions;
+}